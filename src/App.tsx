@@ -6,6 +6,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Admin from "./pages/Admin";
 import Attendee from "./pages/Attendee";
+import Present from "./pages/Present";
 import InstanceManager from "./pages/InstanceManager";
 import NotFound from "./pages/NotFound";
 
@@ -22,6 +23,7 @@ const App = () => (
           <Route path="/instances" element={<InstanceManager />} />
           <Route path="/admin/:instanceId" element={<Admin />} />
           <Route path="/attendee/:instanceId" element={<Attendee />} />
+          <Route path="/present/:instanceId" element={<Present />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,72 @@
+/**
+ * Answer Timeline Component
+ * 
+ * How fast the audience answered: answers per interval and the running total,
+ * relative to when the question was activated
+ */
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import type { Question, Answer } from '@/types/waku';
+import { answerTimeline } from '@/lib/results';
+
+interface AnswerTimelineProps {
+  question: Question;
+  answers: Answer[];
+}
+
+function formatSeconds(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+export function AnswerTimeline({ question, answers }: AnswerTimelineProps) {
+  const timeline = useMemo(() => answerTimeline(question, answers), [question, answers]);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Answer Timeline</CardTitle>
+        <CardDescription>
+          Answers per {timeline.intervalSeconds}s and in total, since{' '}
+          {timeline.origin === 'activation' ? 'the question was activated' : 'the first answer'}
+          {timeline.before > 0 && ` • ${timeline.before} earlier answer${timeline.before !== 1 ? 's' : ''} not shown`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {answers.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No answers yet.
+          </p>
+        ) : (
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={timeline.points} margin={{ left: 0, right: 16 }}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="seconds" tickFormatter={formatSeconds} />
+              <YAxis yAxisId="interval" allowDecimals={false} />
+              <YAxis yAxisId="total" orientation="right" allowDecimals={false} />
+              <Tooltip labelFormatter={(seconds: number) => `+${formatSeconds(seconds)}`} />
+              <Legend />
+              <Bar
+                yAxisId="interval"
+                dataKey="count"
+                name="Per interval"
+                fill="hsl(250, 70%, 58%)"
+                radius={[4, 4, 0, 0]}
+              />
+              <Line
+                yAxisId="total"
+                dataKey="cumulative"
+                name="Total"
+                type="monotone"
+                stroke="hsl(290, 65%, 60%)"
+                strokeWidth={2}
+                dot={false}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,114 @@
+/**
+ * Audience Questions Component
+ * 
+ * Lets attendees ask the speaker questions and upvote the ones they want answered
+ */
+
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { AudienceQuestion } from '@/types/waku';
+import { sortAudienceQuestions } from '@/lib/audience';
+import { MessageCircleQuestion, Send, ThumbsUp, Pin, CircleCheck } from 'lucide-react';
+
+interface AudienceQuestionsProps {
+  questions: AudienceQuestion[];
+  senderId: string;
+  onPost: (text: string) => void;
+  onUpvote: (questionId: string, upvoted: boolean) => void;
+  disabled?: boolean;
+}
+
+export function AudienceQuestions({ questions, senderId, onPost, onUpvote, disabled = false }: AudienceQuestionsProps) {
+  const [text, setText] = useState('');
+
+  const visibleQuestions = useMemo(
+    () => sortAudienceQuestions(questions.filter(q => q.status !== 'hidden')),
+    [questions]
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (text.trim() && !disabled) {
+      onPost(text.trim());
+      setText('');
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageCircleQuestion className="h-5 w-5 text-primary" />
+          Ask the speaker
+        </CardTitle>
+        <CardDescription>
+          Post a question or upvote the ones you want answered
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex gap-3">
+          <Input
+            placeholder="Your question..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={disabled}
+            className="flex-1"
+          />
+          <Button type="submit" disabled={!text.trim() || disabled}>
+            <Send className="h-4 w-4 mr-2" />
+            Ask
+          </Button>
+        </form>
+
+        {visibleQuestions.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-4">
+            No questions yet. Be the first to ask!
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {visibleQuestions.map(question => {
+              const hasUpvoted = question.upvoterIds.includes(senderId);
+              const isOwn = question.senderId === senderId;
+              return (
+                <div
+                  key={question.id}
+                  className={`flex items-start gap-3 p-3 border rounded-lg bg-card ${
+                    question.status === 'answered' ? 'opacity-60' : ''
+                  } ${question.status === 'pinned' ? 'border-primary' : ''}`}
+                >
+                  <Button
+                    variant={hasUpvoted ? 'default' : 'outline'}
+                    size="sm"
+                    className="flex-col h-auto py-1 px-2 shrink-0"
+                    onClick={() => onUpvote(question.id, !hasUpvoted)}
+                    disabled={disabled || isOwn}
+                    aria-pressed={hasUpvoted}
+                    aria-label={hasUpvoted ? 'Remove upvote' : 'Upvote'}
+                  >
+                    <ThumbsUp className="h-4 w-4" />
+                    <span className="text-xs">{question.upvoterIds.length}</span>
+                  </Button>
+                  <div className="flex-1 space-y-1">
+                    <p className="font-medium">{question.text}</p>
+                    <div className="flex flex-wrap gap-2">
+                      {question.status === 'pinned' && (
+                        <Badge className="gap-1"><Pin className="h-3 w-3" />Pinned</Badge>
+                      )}
+                      {question.status === 'answered' && (
+                        <Badge variant="secondary" className="gap-1"><CircleCheck className="h-3 w-3" />Answered</Badge>
+                      )}
+                      {isOwn && <Badge variant="outline">Your question</Badge>}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Choice Results Component
+ * 
+ * Vote counts per option for single and multiple choice questions
+ */
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from 'recharts';
+import type { Question, Answer } from '@/types/waku';
+import { countOptionVotes } from '@/lib/results';
+
+interface ChoiceResultsProps {
+  question: Question;
+  answers: Answer[];
+}
+
+export function ChoiceResults({ question, answers }: ChoiceResultsProps) {
+  const votes = useMemo(() => countOptionVotes(question, answers), [question, answers]);
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Vote Counts</CardTitle>
+        <CardDescription>
+          {answers.length} response{answers.length !== 1 ? 's' : ''} received
+          {question.kind === 'multi' && ' • attendees could pick several options'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ResponsiveContainer width="100%" height={Math.max(200, votes.length * 48)}>
+          <BarChart data={votes} layout="vertical" margin={{ left: 16, right: 16 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" allowDecimals={false} />
+            <YAxis type="category" dataKey="label" width={160} />
+            <Tooltip />
+            <Bar dataKey="count" name="Votes" fill="hsl(250, 70%, 58%)" radius={[0, 4, 4, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+/**
+ * Countdown Component
+ * 
+ * Remaining answering time of a timed question
+ */
+
+import { Badge } from '@/components/ui/badge';
+import { useCountdown } from '@/hooks/useCountdown';
+import { Timer } from 'lucide-react';
+
+const WARNING_MS = 10_000;
+
+interface CountdownProps {
+  closesAt: number;
+  clockOffset?: number;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export function Countdown({ closesAt, clockOffset = 0 }: CountdownProps) {
+  const remainingMs = useCountdown(closesAt, clockOffset) ?? 0;
+
+  return (
+    <Badge
+      variant={remainingMs > 0 && remainingMs <= WARNING_MS ? 'destructive' : 'secondary'}
+      className="gap-1 font-mono tabular-nums"
+    >
+      <Timer className="h-3.5 w-3.5" />
+      {remainingMs > 0 ? formatRemaining(remainingMs) : "Time's up"}
+    </Badge>
+  );
+}
@@ -0,0 +1,71 @@
+/**
+ * Export Menu Component
+ * 
+ * Downloads an instance's stored results as CSV, JSON, Markdown or a PDF report
+ */
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { exportSession, type ExportFormat } from '@/lib/export';
+import { exportPdfReport } from '@/lib/report';
+import { Download, FileSpreadsheet, FileJson, FileText, FileChartColumn } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ExportMenuProps {
+  instanceId: string;
+  size?: 'default' | 'sm' | 'icon';
+}
+
+export function ExportMenu({ instanceId, size = 'default' }: ExportMenuProps) {
+  const handleExport = (format: ExportFormat | 'pdf') => {
+    if (format !== 'pdf') {
+      if (!exportSession(instanceId, format)) {
+        toast.error('Nothing to export for this instance');
+      }
+      return;
+    }
+
+    const report = exportPdfReport(instanceId);
+    if (!report) {
+      toast.error('Nothing to export for this instance');
+    } else if (report.unsupportedText) {
+      toast.warning('The PDF only shows Latin characters; use the CSV, JSON or Markdown export for other scripts');
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} aria-label="Export results">
+          <Download className={size === 'icon' ? 'h-4 w-4' : 'h-4 w-4 mr-2'} />
+          {size !== 'icon' && 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('csv')}>
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          CSV (one row per answer)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')}>
+          <FileJson className="h-4 w-4 mr-2" />
+          JSON
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('markdown')}>
+          <FileText className="h-4 w-4 mr-2" />
+          Markdown summary
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('pdf')}>
+          <FileChartColumn className="h-4 w-4 mr-2" />
+          PDF report with charts
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,57 @@
+/**
+ * Leaderboard Component
+ * 
+ * Quiz scores per attendee, summed over all revealed quiz questions
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { LeaderboardEntry } from '@/types/waku';
+import { leaderboardRank } from '@/lib/quiz';
+import { Trophy } from 'lucide-react';
+
+interface LeaderboardProps {
+  leaderboard: LeaderboardEntry[];
+  revealedCount: number;
+}
+
+export function Leaderboard({ leaderboard, revealedCount }: LeaderboardProps) {
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Trophy className="h-5 w-5 text-primary" />
+          Leaderboard
+        </CardTitle>
+        <CardDescription>
+          {revealedCount} quiz question{revealedCount !== 1 ? 's' : ''} revealed • {leaderboard.length} player{leaderboard.length !== 1 ? 's' : ''}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {leaderboard.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            Scores appear once you reveal the answer to a quiz question.
+          </p>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {leaderboard.map(entry => (
+              <div
+                key={entry.senderId}
+                className="flex items-center gap-4 p-3 border rounded-lg bg-card"
+              >
+                <span className="w-8 text-center text-lg font-bold text-muted-foreground">
+                  {leaderboardRank(leaderboard, entry.senderId)}
+                </span>
+                <code className="flex-1 text-sm font-mono truncate">{entry.senderId}</code>
+                <span className="text-sm text-muted-foreground">{entry.correct} correct</span>
+                <Badge variant="secondary" className="shrink-0">
+                  {entry.points} pts
+                </Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * Moderation Queue Component
+ * 
+ * Admin view of audience questions, most upvoted first, with pin/answered/hide controls
+ */
+
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { AudienceQuestion, AudienceQuestionStatus } from '@/types/waku';
+import { sortAudienceQuestions } from '@/lib/audience';
+import { ThumbsUp, Pin, PinOff, CircleCheck, EyeOff, Eye, RotateCcw } from 'lucide-react';
+
+interface ModerationQueueProps {
+  questions: AudienceQuestion[];
+  onModerate: (questionId: string, status: AudienceQuestionStatus) => void;
+  disabled?: boolean;
+}
+
+const STATUS_LABELS: Record<AudienceQuestionStatus, string> = {
+  open: 'Open',
+  pinned: 'Pinned',
+  answered: 'Answered',
+  hidden: 'Hidden'
+};
+
+export function ModerationQueue({ questions, onModerate, disabled = false }: ModerationQueueProps) {
+  const sortedQuestions = useMemo(() => sortAudienceQuestions(questions), [questions]);
+  const openCount = questions.filter(q => q.status === 'open' || q.status === 'pinned').length;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Audience Questions</CardTitle>
+        <CardDescription>
+          {questions.length} question{questions.length !== 1 ? 's' : ''} asked • {openCount} waiting for an answer
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {sortedQuestions.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No audience questions yet. Attendees can ask from their view.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {sortedQuestions.map(question => (
+              <div
+                key={question.id}
+                className={`flex items-start gap-4 p-4 border rounded-lg bg-card ${
+                  question.status === 'hidden' || question.status === 'answered' ? 'opacity-60' : ''
+                } ${question.status === 'pinned' ? 'border-primary' : ''}`}
+              >
+                <div className="flex flex-col items-center shrink-0 text-muted-foreground">
+                  <ThumbsUp className="h-4 w-4" />
+                  <span className="text-sm font-bold">{question.upvoterIds.length}</span>
+                </div>
+                <div className="flex-1 space-y-2">
+                  <p className="font-medium">{question.text}</p>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Badge variant={question.status === 'pinned' ? 'default' : 'secondary'}>
+                      {STATUS_LABELS[question.status]}
+                    </Badge>
+                    {new Date(question.timestamp).toLocaleTimeString()}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {question.status === 'pinned' ? (
+                    <Button variant="ghost" size="icon" onClick={() => onModerate(question.id, 'open')} disabled={disabled} aria-label="Unpin">
+                      <PinOff className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="icon" onClick={() => onModerate(question.id, 'pinned')} disabled={disabled} aria-label="Pin">
+                      <Pin className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {question.status === 'answered' ? (
+                    <Button variant="ghost" size="icon" onClick={() => onModerate(question.id, 'open')} disabled={disabled} aria-label="Reopen">
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="icon" onClick={() => onModerate(question.id, 'answered')} disabled={disabled} aria-label="Mark answered">
+                      <CircleCheck className="h-4 w-4" />
+                    </Button>
+                  )}
+                  {question.status === 'hidden' ? (
+                    <Button variant="ghost" size="icon" onClick={() => onModerate(question.id, 'open')} disabled={disabled} aria-label="Unhide">
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onModerate(question.id, 'hidden')}
+                      disabled={disabled}
+                      className="text-destructive hover:text-destructive"
+                      aria-label="Hide"
+                    >
+                      <EyeOff className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
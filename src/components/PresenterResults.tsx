@@ -0,0 +1,101 @@
+/**
+ * Presenter Results Component
+ *
+ * Large, animated results for the active question on the presenter screen.
+ * Works from aggregated results, so the admin's counts from the session snapshot
+ * and the answers seen live can be shown together.
+ */
+
+import { useMemo } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { BarChart, Bar, Cell, XAxis, YAxis, ResponsiveContainer, LabelList } from 'recharts';
+import type { Question, QuestionResults } from '@/types/waku';
+import { isChoiceQuestion, isScaleQuestion } from '@/lib/questions';
+import { summarizeRatings } from '@/lib/results';
+import { publishedRatings } from '@/lib/published';
+
+const TOP_ANSWERS = 8;
+const BAR_COLOR = 'hsl(250, 70%, 58%)';
+const CORRECT_COLOR = 'hsl(145, 65%, 45%)'; // --success
+
+interface PresenterResultsProps {
+  question: Question;
+  results: QuestionResults; // counted answers for the question
+}
+
+const formatStat = (value: number | null) => value === null ? '–' : value.toFixed(1);
+
+export function PresenterResults({ question, results }: PresenterResultsProps) {
+  const summary = useMemo(
+    () => isScaleQuestion(question) ? summarizeRatings(question, publishedRatings(results)) : null,
+    [question, results]
+  );
+
+  const correct = new Set(question.revealedAt ? question.correctOptionIds ?? [] : []);
+  const rows = isChoiceQuestion(question) || summary ? results.rows : results.rows.slice(0, TOP_ANSWERS);
+
+  if (results.total === 0) {
+    return (
+      <Card className="shadow-lg">
+        <CardContent className="pt-6">
+          <p className="text-center text-2xl text-muted-foreground py-24">
+            Waiting for answers...
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (summary) {
+    return (
+      <Card className="shadow-lg">
+        <CardContent className="pt-6 space-y-6">
+          <div className="flex justify-center gap-12 text-center">
+            <div>
+              <p className="text-5xl font-bold">{formatStat(summary.mean)}</p>
+              <p className="text-lg text-muted-foreground">Mean</p>
+            </div>
+            <div>
+              <p className="text-5xl font-bold">{formatStat(summary.median)}</p>
+              <p className="text-lg text-muted-foreground">Median</p>
+            </div>
+            {summary.nps && (
+              <div>
+                <p className="text-5xl font-bold">{summary.nps.score > 0 ? '+' : ''}{summary.nps.score}</p>
+                <p className="text-lg text-muted-foreground">NPS</p>
+              </div>
+            )}
+          </div>
+          <ResponsiveContainer width="100%" height={320}>
+            <BarChart data={rows} margin={{ top: 32 }}>
+              <XAxis dataKey="label" tick={{ fontSize: 20 }} />
+              <YAxis hide allowDecimals={false} />
+              <Bar dataKey="count" fill={BAR_COLOR} radius={[6, 6, 0, 0]} animationDuration={600}>
+                <LabelList dataKey="count" position="top" style={{ fontSize: 20, fontWeight: 700 }} />
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-lg">
+      <CardContent className="pt-6">
+        <ResponsiveContainer width="100%" height={Math.max(240, rows.length * 64)}>
+          <BarChart data={rows} layout="vertical" margin={{ left: 16, right: 48 }}>
+            <XAxis type="number" hide allowDecimals={false} />
+            <YAxis type="category" dataKey="label" width={280} tick={{ fontSize: 20 }} />
+            <Bar dataKey="count" fill={BAR_COLOR} radius={[0, 6, 6, 0]} animationDuration={600}>
+              {rows.map((row, index) => (
+                <Cell key={`${row.id}-${index}`} fill={correct.has(row.id) ? CORRECT_COLOR : BAR_COLOR} />
+              ))}
+              <LabelList dataKey="count" position="right" style={{ fontSize: 20, fontWeight: 700 }} />
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+/**
+ * Published Results Component
+ * 
+ * Shows attendees the results the admin shared for a closed question
+ */
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import type { AnswerInput, Question } from '@/types/waku';
+import { isScaleQuestion } from '@/lib/questions';
+import { summarizeRatings } from '@/lib/results';
+import { publishedRatings } from '@/lib/published';
+import { BarChart3 } from 'lucide-react';
+
+interface PublishedResultsProps {
+  question: Question;
+  submittedAnswer?: AnswerInput; // our own answer, highlighted
+}
+
+export function PublishedResults({ question, submittedAnswer }: PublishedResultsProps) {
+  const results = question.publishedResults;
+  if (!results) return null;
+
+  const maxCount = Math.max(1, ...results.rows.map(row => row.count));
+  const correct = new Set(question.revealedAt ? question.correctOptionIds ?? [] : []);
+  const summary = isScaleQuestion(question) ? summarizeRatings(question, publishedRatings(results)) : null;
+
+  const isOwnAnswer = (rowId: string) =>
+    !!submittedAnswer && rowId !== '' &&
+    ((submittedAnswer.optionIds ?? []).includes(rowId) || (isScaleQuestion(question) && submittedAnswer.text === rowId));
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-start gap-2 text-lg">
+          <BarChart3 className="h-5 w-5 text-primary shrink-0 mt-0.5" />
+          {question.text}
+        </CardTitle>
+        <CardDescription>
+          {results.total} answer{results.total !== 1 ? 's' : ''}
+          {summary?.mean != null && ` • average ${summary.mean.toFixed(1)}`}
+          {summary?.nps && ` • NPS ${summary.nps.score}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {results.rows.map((row, index) => (
+          <div key={`${row.id}-${index}`} className="space-y-1">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <span className={`flex items-center gap-2 ${correct.has(row.id) ? 'font-semibold text-success' : ''}`}>
+                {row.label}
+                {isOwnAnswer(row.id) && <Badge variant="outline" className="text-xs">You</Badge>}
+              </span>
+              <span className="text-muted-foreground tabular-nums">
+                {row.count}
+                {results.total > 0 && ` (${Math.round((row.count / results.total) * 100)}%)`}
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-muted overflow-hidden">
+              <div
+                className={`h-full rounded-full transition-all ${correct.has(row.id) ? 'bg-success' : 'bg-primary'}`}
+                style={{ width: `${(row.count / maxCount) * 100}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,34 +1,88 @@
 /**
  * Question Card Component
  * 
- * Displays an active question to attendees with answer input
+ * Displays an active question to attendees with answer input: a text field,
+ * radio buttons (single choice), checkboxes (multiple choice) or a row of
+ * rating buttons (scale and NPS).
+ * The question's answer policy decides what follows a submission: nothing, changing
+ * or retracting the answer ('latest'), or answering again ('unlimited').
+ * Once a quiz question is revealed, the correct options are highlighted and answering closes.
+ * Timed questions show a countdown and close when it runs out.
  */
 
 import { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import type { Question } from '@/types/waku';
-import { Send, Check, Loader2, CheckCheck } from 'lucide-react';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import type { AnswerInput, Question } from '@/types/waku';
+import { isChoiceQuestion, isScaleQuestion, scaleRange } from '@/lib/questions';
+import { allowsAnswerChanges, allowsRepeatAnswers } from '@/lib/answers';
+import { useCountdown } from '@/hooks/useCountdown';
+import { Countdown } from '@/components/Countdown';
+import { Send, Check, Loader2, CheckCheck, Pencil, Undo2, Plus } from 'lucide-react';
 
 type MessageStatus = 'idle' | 'sending' | 'sent' | 'acknowledged';
 
 interface QuestionCardProps {
   question: Question;
-  onSubmit: (questionId: string, answerText: string) => void;
+  onSubmit: (questionId: string, response: AnswerInput) => void;
+  onRetract?: (questionId: string) => void;
   disabled?: boolean;
   submitted?: boolean;
+  submittedAnswer?: AnswerInput;
   messageStatus?: MessageStatus;
+  clockOffset?: number; // admin clock minus ours, for the countdown
 }
 
 export function QuestionCard({
   question,
   onSubmit,
+  onRetract,
   disabled = false,
   submitted = false,
-  messageStatus = 'idle'
+  submittedAnswer,
+  messageStatus = 'idle',
+  clockOffset = 0
 }: QuestionCardProps) {
   const [answerText, setAnswerText] = useState('');
+  const [selectedOptionIds, setSelectedOptionIds] = useState<string[]>([]);
+  const [rating, setRating] = useState<number | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const isRevealed = !!question.revealedAt;
+  const remainingMs = useCountdown(question.closesAt, clockOffset);
+  const isTimeUp = remainingMs === 0;
+  const canChange = allowsAnswerChanges(question) && !isRevealed && !isTimeUp;
+  const canAnswerAgain = allowsRepeatAnswers(question) && !isRevealed && !isTimeUp;
+  const isChoice = isChoiceQuestion(question);
+  const isScale = isScaleQuestion(question);
+  const options = question.options ?? [];
+  const { min, max } = scaleRange(question);
+  const ratings = isScale ? Array.from({ length: max - min + 1 }, (_, index) => min + index) : [];
+
+  // Build the answer from the current input, or null when nothing is filled in
+  const buildResponse = (): AnswerInput | null => {
+    if (isScale) {
+      return rating !== null ? { text: String(rating) } : null;
+    }
+    if (!isChoice) {
+      return answerText.trim() ? { text: answerText.trim() } : null;
+    }
+    const picked = options.filter(option => selectedOptionIds.includes(option.id));
+    if (picked.length === 0) return null;
+    return {
+      text: picked.map(option => option.label).join(', '),
+      optionIds: picked.map(option => option.id)
+    };
+  };
+
+  const toggleOption = (optionId: string, checked: boolean) => {
+    setSelectedOptionIds(prev =>
+      checked ? [...prev, optionId] : prev.filter(id => id !== optionId)
+    );
+  };
 
   const getStatusDisplay = () => {
     switch (messageStatus) {
@@ -60,51 +114,187 @@ export function QuestionCard({
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (answerText.trim() && !disabled && !submitted) {
-      onSubmit(question.id, answerText.trim());
+    const response = buildResponse();
+    if (response && !disabled && (!submitted || isEditing)) {
+      onSubmit(question.id, response);
       setAnswerText('');
+      setSelectedOptionIds([]);
+      setRating(null);
+      setIsEditing(false);
+    }
+  };
+
+  const startEditing = () => {
+    setAnswerText(submittedAnswer?.text ?? '');
+    setSelectedOptionIds(submittedAnswer?.optionIds ?? []);
+    setRating(isScale && submittedAnswer ? Number(submittedAnswer.text) : null);
+    setIsEditing(true);
+  };
+
+  const startAnotherAnswer = () => {
+    setAnswerText('');
+    setSelectedOptionIds([]);
+    setRating(null);
+    setIsEditing(true);
+  };
+
+  const isInputDisabled = disabled || messageStatus === 'sending' || isRevealed || isTimeUp;
+
+  const correctLabels = isRevealed
+    ? options.filter(option => question.correctOptionIds?.includes(option.id)).map(option => option.label)
+    : [];
+
+  const handleRetract = () => {
+    if (!disabled) {
+      onRetract?.(question.id);
+      setIsEditing(false);
     }
   };
 
   return (
     <Card className="shadow-lg">
       <CardHeader>
-        <CardTitle className="text-lg">{question.text}</CardTitle>
+        <div className="flex items-start justify-between gap-3">
+          <CardTitle className="text-lg">{question.text}</CardTitle>
+          {question.closesAt && <Countdown closesAt={question.closesAt} clockOffset={clockOffset} />}
+        </div>
       </CardHeader>
       <CardContent>
-        {submitted ? (
+        {submitted && !isEditing ? (
           <div className="space-y-3">
             <div className="flex items-center gap-2 text-success">
               <Check className="h-5 w-5" />
               <span className="font-medium">Answer submitted successfully!</span>
             </div>
+            {submittedAnswer && (
+              <p className="text-sm text-muted-foreground">
+                Your answer: <span className="font-medium text-foreground">{submittedAnswer.text}</span>
+              </p>
+            )}
             {getStatusDisplay()}
+            {correctLabels.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Correct answer: <span className="font-medium text-success">{correctLabels.join(', ')}</span>
+              </p>
+            )}
+            {canChange && (
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={startEditing} disabled={disabled}>
+                  <Pencil className="h-4 w-4 mr-2" />
+                  Change answer
+                </Button>
+                {onRetract && (
+                  <Button variant="ghost" size="sm" onClick={handleRetract} disabled={disabled}>
+                    <Undo2 className="h-4 w-4 mr-2" />
+                    Retract
+                  </Button>
+                )}
+              </div>
+            )}
+            {canAnswerAgain && (
+              <Button variant="outline" size="sm" onClick={startAnotherAnswer} disabled={disabled}>
+                <Plus className="h-4 w-4 mr-2" />
+                Answer again
+              </Button>
+            )}
           </div>
         ) : (
           <div className="space-y-3">
-            <form onSubmit={handleSubmit} className="flex gap-3">
-              <Input
-                placeholder="Type your answer here..."
-                value={answerText}
-                onChange={(e) => setAnswerText(e.target.value)}
-                disabled={disabled || messageStatus === 'sending'}
-                className="flex-1"
-              />
-              <Button type="submit" disabled={!answerText.trim() || disabled || messageStatus === 'sending'}>
-                {messageStatus === 'sending' ? (
-                  <>
-                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                    Sending
-                  </>
-                ) : (
-                  <>
-                    <Send className="h-4 w-4 mr-2" />
-                    Submit
-                  </>
+            <form onSubmit={handleSubmit} className={isChoice || isScale ? 'space-y-4' : 'flex gap-3'}>
+              {question.kind === 'single' && (
+                <RadioGroup
+                  value={selectedOptionIds[0] ?? ''}
+                  onValueChange={(value) => setSelectedOptionIds([value])}
+                  disabled={isInputDisabled}
+                >
+                  {options.map(option => (
+                    <div key={option.id} className="flex items-center gap-2">
+                      <RadioGroupItem value={option.id} id={`${question.id}-${option.id}`} />
+                      <Label htmlFor={`${question.id}-${option.id}`}>{option.label}</Label>
+                    </div>
+                  ))}
+                </RadioGroup>
+              )}
+              {question.kind === 'multi' && (
+                <div className="grid gap-2">
+                  {options.map(option => (
+                    <div key={option.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${question.id}-${option.id}`}
+                        checked={selectedOptionIds.includes(option.id)}
+                        onCheckedChange={(checked) => toggleOption(option.id, checked === true)}
+                        disabled={isInputDisabled}
+                      />
+                      <Label htmlFor={`${question.id}-${option.id}`}>{option.label}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {isScale && (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-2">
+                    {ratings.map(value => (
+                      <Button
+                        key={value}
+                        type="button"
+                        variant={rating === value ? 'default' : 'outline'}
+                        size="sm"
+                        className="min-w-10"
+                        onClick={() => setRating(value)}
+                        disabled={isInputDisabled}
+                        aria-pressed={rating === value}
+                      >
+                        {value}
+                      </Button>
+                    ))}
+                  </div>
+                  {question.kind === 'nps' && (
+                    <div className="flex justify-between text-xs text-muted-foreground">
+                      <span>Not at all likely</span>
+                      <span>Extremely likely</span>
+                    </div>
+                  )}
+                </div>
+              )}
+              {!isChoice && !isScale && (
+                <Input
+                  placeholder="Type your answer here..."
+                  value={answerText}
+                  onChange={(e) => setAnswerText(e.target.value)}
+                  disabled={isInputDisabled}
+                  className="flex-1"
+                />
+              )}
+              <div className="flex gap-3">
+                <Button type="submit" disabled={!buildResponse() || isInputDisabled}>
+                  {messageStatus === 'sending' ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Sending
+                    </>
+                  ) : (
+                    <>
+                      <Send className="h-4 w-4 mr-2" />
+                      {isEditing && canChange ? 'Update' : 'Submit'}
+                    </>
+                  )}
+                </Button>
+                {isEditing && (
+                  <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}>
+                    Cancel
+                  </Button>
                 )}
-              </Button>
+              </div>
             </form>
-            {messageStatus !== 'idle' && getStatusDisplay()}
+            {!isEditing && messageStatus !== 'idle' && getStatusDisplay()}
+            {isTimeUp && !isRevealed && (
+              <p className="text-sm text-muted-foreground">Time's up, answering is closed.</p>
+            )}
+            {correctLabels.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Answering is closed. Correct answer: <span className="font-medium text-success">{correctLabels.join(', ')}</span>
+              </p>
+            )}
           </div>
         )}
       </CardContent>
@@ -1,7 +1,14 @@
 /**
  * Question Manager Component
  * 
- * Admin interface for creating and managing questions
+ * Admin interface for creating, editing, deleting, reordering and activating questions.
+ * Editing corrects the text, option labels, scale range and time limit; the question
+ * type, the set of options and the answer policy are fixed once created.
+ * Questions are free text, single/multiple choice with admin-defined options,
+ * a rating scale or an NPS (0-10) question. Choice questions can be quiz questions
+ * whose correct answer is revealed (and scored) by the admin. Any question can have
+ * a time limit after which it closes automatically, and an answer policy deciding
+ * which of an attendee's repeated submissions count.
  */
 
 import { useState } from 'react';
@@ -10,33 +17,204 @@ import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
-import type { Question } from '@/types/waku';
-import { Plus, Radio, ChevronRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import type { AnswerPolicy, Question, QuestionDraft, QuestionEdit, QuestionKind, QuestionOption } from '@/types/waku';
+import { isChoiceQuestion, moveQuestion, scaleRange } from '@/lib/questions';
+import { isQuizQuestion } from '@/lib/quiz';
+import { answerPolicyOf } from '@/lib/answers';
+import { Countdown } from '@/components/Countdown';
+import { Plus, Radio, ChevronRight, GripVertical, Pencil, Trash2, Check, X, Eye, CircleCheck, Share2 } from 'lucide-react';
+
+const KIND_LABELS: Record<QuestionKind, string> = {
+  text: 'Free text',
+  single: 'Single choice',
+  multi: 'Multiple choice',
+  scale: 'Rating scale',
+  nps: 'NPS (0-10)'
+};
+
+const SCALE_MAXIMUMS = [5, 7, 10];
+
+// The policy also decides what attendees can do after answering
+const ANSWER_POLICY_LABELS: Record<AnswerPolicy, string> = {
+  single: 'One answer, no changes',
+  latest: 'Changeable, latest counts',
+  unlimited: 'Unlimited answers'
+};
+
+const DURATIONS = [15, 30, 60, 120, 300]; // seconds
+const NO_TIME_LIMIT = 'none';
+
+const formatDuration = (seconds: number) => seconds < 60 ? `${seconds}s` : `${seconds / 60} min`;
+
+const MIN_OPTIONS = 2;
+const MAX_OPTIONS = 20;
+
+interface OptionDraft {
+  label: string;
+  correct: boolean;
+}
+
+const emptyOptions = (): OptionDraft[] => [{ label: '', correct: false }, { label: '', correct: false }];
 
 interface QuestionManagerProps {
   questions: Question[];
-  onAddQuestion: (text: string) => void;
+  onAddQuestion: (draft: QuestionDraft) => void;
+  onEditQuestion: (questionId: string, edit: QuestionEdit) => void;
+  onDeleteQuestion: (questionId: string) => void;
+  onReorderQuestions: (questionIds: string[]) => void;
   onToggleActive: (questionId: string) => void;
   onNextQuestion: () => void;
+  onRevealAnswer: (questionId: string) => void;
+  onPublishResults: (questionId: string) => void;
   disabled?: boolean;
 }
 
 export function QuestionManager({
   questions,
   onAddQuestion,
+  onEditQuestion,
+  onDeleteQuestion,
+  onReorderQuestions,
   onToggleActive,
   onNextQuestion,
+  onRevealAnswer,
+  onPublishResults,
   disabled = false
 }: QuestionManagerProps) {
   const [newQuestionText, setNewQuestionText] = useState('');
+  const [answerPolicy, setAnswerPolicy] = useState<AnswerPolicy>('single');
+  const [kind, setKind] = useState<QuestionKind>('text');
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>(emptyOptions);
+  const [quiz, setQuiz] = useState(false);
+  const [scaleMax, setScaleMax] = useState(5);
+  const [durationSeconds, setDurationSeconds] = useState<number | undefined>(undefined);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [editOptions, setEditOptions] = useState<QuestionOption[]>([]);
+  const [editScaleMax, setEditScaleMax] = useState(5);
+  const [editDuration, setEditDuration] = useState<number | undefined>(undefined);
+  const [questionToDelete, setQuestionToDelete] = useState<Question | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dragOverId, setDragOverId] = useState<string | null>(null);
+
+  const isChoiceKind = kind === 'single' || kind === 'multi';
+  const isQuiz = isChoiceKind && quiz;
+  const filledOptions = optionDrafts
+    .map(option => ({ ...option, label: option.label.trim() }))
+    .filter(option => option.label);
+  const canSubmit = !!newQuestionText.trim() &&
+    (!isChoiceKind || filledOptions.length >= MIN_OPTIONS) &&
+    (!isQuiz || filledOptions.some(option => option.correct));
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newQuestionText.trim() && !disabled) {
-      onAddQuestion(newQuestionText.trim());
+    if (canSubmit && !disabled) {
+      onAddQuestion({
+        text: newQuestionText.trim(),
+        answerPolicy,
+        allowAnswerChanges: answerPolicy === 'latest', // for attendees from before answer policies
+        kind,
+        ...(isChoiceKind && {
+          options: filledOptions.map((option, index) => ({ id: `o${index + 1}`, label: option.label }))
+        }),
+        ...(isQuiz && {
+          quiz: true,
+          correctOptionIds: filledOptions.flatMap((option, index) => option.correct ? [`o${index + 1}`] : [])
+        }),
+        ...(kind === 'scale' && { scale: { min: 1, max: scaleMax } }),
+        ...(durationSeconds && { durationSeconds })
+      });
       setNewQuestionText('');
+      setOptionDrafts(emptyOptions());
+    }
+  };
+
+  const handleKindChange = (value: string) => {
+    setKind(value as QuestionKind);
+    // Correct answers picked for multiple choice may not fit single choice
+    setOptionDrafts(prev => prev.map(option => ({ ...option, correct: false })));
+  };
+
+  const updateOption = (index: number, update: Partial<OptionDraft>) => {
+    setOptionDrafts(prev => prev.map((existing, i) => i === index ? { ...existing, ...update } : existing));
+  };
+
+  // Single choice quizzes have exactly one correct option
+  const markCorrect = (index: number, correct: boolean) => {
+    setOptionDrafts(prev => prev.map((existing, i) =>
+      i === index ? { ...existing, correct } : kind === 'single' && correct ? { ...existing, correct: false } : existing
+    ));
+  };
+
+  const removeOption = (index: number) => {
+    setOptionDrafts(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const startEditing = (question: Question) => {
+    setEditingId(question.id);
+    setEditText(question.text);
+    setEditOptions(question.options ?? []);
+    setEditScaleMax(scaleRange(question).max);
+    setEditDuration(question.durationSeconds);
+  };
+
+  const cancelEditing = () => {
+    setEditingId(null);
+    setEditText('');
+    setEditOptions([]);
+  };
+
+  const canSaveEdit = !!editText.trim() && editOptions.every(option => option.label.trim());
+
+  const handleEditSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const question = questions.find(q => q.id === editingId);
+    if (question && canSaveEdit && !disabled) {
+      const edit: QuestionEdit = {
+        text: editText.trim(),
+        ...(isChoiceQuestion(question) && {
+          options: editOptions.map(option => ({ ...option, label: option.label.trim() }))
+        }),
+        ...(question.kind === 'scale' && { scale: { min: scaleRange(question).min, max: editScaleMax } }),
+        durationSeconds: editDuration
+      };
+      const changed = edit.text !== question.text ||
+        edit.options?.some((option, index) => option.label !== question.options?.[index]?.label) ||
+        (edit.scale && edit.scale.max !== scaleRange(question).max) ||
+        edit.durationSeconds !== question.durationSeconds;
+      if (changed) {
+        onEditQuestion(question.id, edit);
+      }
+      cancelEditing();
+    }
+  };
+
+  const confirmDelete = () => {
+    if (questionToDelete) {
+      onDeleteQuestion(questionToDelete.id);
+      setQuestionToDelete(null);
+    }
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (draggedId && draggedId !== targetId) {
+      onReorderQuestions(moveQuestion(questions, draggedId, targetId));
     }
+    setDraggedId(null);
+    setDragOverId(null);
   };
 
   const hasInactiveQuestions = questions.some(q => !q.active);
@@ -53,18 +231,135 @@ export function QuestionManager({
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="flex gap-3">
-            <Input
-              placeholder="e.g., Which programming language do you use most?"
-              value={newQuestionText}
-              onChange={(e) => setNewQuestionText(e.target.value)}
-              disabled={disabled}
-              className="flex-1"
-            />
-            <Button type="submit" disabled={!newQuestionText.trim() || disabled}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Question
-            </Button>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex gap-3">
+              <Input
+                placeholder="e.g., Which programming language do you use most?"
+                value={newQuestionText}
+                onChange={(e) => setNewQuestionText(e.target.value)}
+                disabled={disabled}
+                className="flex-1"
+              />
+              <Select value={kind} onValueChange={handleKindChange} disabled={disabled}>
+                <SelectTrigger className="w-44" aria-label="Question type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(KIND_LABELS) as QuestionKind[]).map(value => (
+                    <SelectItem key={value} value={value}>{KIND_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!canSubmit || disabled}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Question
+              </Button>
+            </div>
+            {kind === 'scale' && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="scale-max" className="text-sm">Rate from 1 to</Label>
+                <Select value={String(scaleMax)} onValueChange={(value) => setScaleMax(Number(value))} disabled={disabled}>
+                  <SelectTrigger id="scale-max" className="w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SCALE_MAXIMUMS.map(value => (
+                      <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {isChoiceKind && (
+              <div className="space-y-2">
+                <Label className="text-sm">Options</Label>
+                {optionDrafts.map((option, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    {isQuiz && (
+                      <Checkbox
+                        checked={option.correct}
+                        onCheckedChange={(checked) => markCorrect(index, checked === true)}
+                        disabled={disabled}
+                        aria-label="Correct answer"
+                      />
+                    )}
+                    <Input
+                      placeholder={`Option ${index + 1}`}
+                      value={option.label}
+                      onChange={(e) => updateOption(index, { label: e.target.value })}
+                      disabled={disabled}
+                      className="flex-1"
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => removeOption(index)}
+                      disabled={disabled || optionDrafts.length <= MIN_OPTIONS}
+                      aria-label="Remove option"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOptionDrafts(prev => [...prev, { label: '', correct: false }])}
+                  disabled={disabled || optionDrafts.length >= MAX_OPTIONS}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add option
+                </Button>
+                <div className="flex items-center gap-2 pt-2">
+                  <Switch
+                    id="quiz-question"
+                    checked={quiz}
+                    onCheckedChange={setQuiz}
+                    disabled={disabled}
+                  />
+                  <Label htmlFor="quiz-question" className="text-sm">
+                    Quiz question: tick the correct answer, revealed and scored when you choose
+                  </Label>
+                </div>
+              </div>
+            )}
+            <div className="flex items-center gap-2">
+              <Label htmlFor="duration" className="text-sm">Time limit</Label>
+              <Select
+                value={durationSeconds ? String(durationSeconds) : NO_TIME_LIMIT}
+                onValueChange={(value) => setDurationSeconds(value === NO_TIME_LIMIT ? undefined : Number(value))}
+                disabled={disabled}
+              >
+                <SelectTrigger id="duration" className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TIME_LIMIT}>None</SelectItem>
+                  {DURATIONS.map(seconds => (
+                    <SelectItem key={seconds} value={String(seconds)}>{formatDuration(seconds)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center gap-2">
+              <Label htmlFor="answer-policy" className="text-sm">Answers</Label>
+              <Select
+                value={answerPolicy}
+                onValueChange={(value) => setAnswerPolicy(value as AnswerPolicy)}
+                disabled={disabled}
+              >
+                <SelectTrigger id="answer-policy" className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ANSWER_POLICY_LABELS) as AnswerPolicy[]).map(policy => (
+                    <SelectItem key={policy} value={policy}>{ANSWER_POLICY_LABELS[policy]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </form>
         </CardContent>
       </Card>
@@ -76,7 +371,7 @@ export function QuestionManager({
             <div>
               <CardTitle>All Questions</CardTitle>
               <CardDescription>
-                Toggle questions to make them visible to attendees
+                Toggle questions to make them visible to attendees, drag to reorder
               </CardDescription>
             </div>
             {questions.length > 0 && (
@@ -107,20 +402,195 @@ export function QuestionManager({
               {questions.map((question) => (
                 <div
                   key={question.id}
-                  className="flex items-start gap-4 p-4 border rounded-lg bg-card hover:bg-accent/5 transition-colors"
+                  draggable={!disabled && editingId === null}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    setDraggedId(question.id);
+                  }}
+                  onDragOver={(e) => {
+                    if (!draggedId) return;
+                    e.preventDefault();
+                    setDragOverId(question.id);
+                  }}
+                  onDragLeave={() => setDragOverId(prev => prev === question.id ? null : prev)}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleDrop(question.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggedId(null);
+                    setDragOverId(null);
+                  }}
+                  className={`flex items-start gap-4 p-4 border rounded-lg bg-card hover:bg-accent/5 transition-colors ${
+                    draggedId === question.id ? 'opacity-50' : ''
+                  } ${dragOverId === question.id && draggedId !== question.id ? 'ring-2 ring-primary' : ''}`}
                 >
+                  <GripVertical
+                    className={`h-5 w-5 mt-0.5 shrink-0 text-muted-foreground ${disabled ? 'opacity-50' : 'cursor-grab'}`}
+                    aria-label="Drag to reorder"
+                  />
                   <div className="flex-1 space-y-2">
-                    <div className="flex items-start gap-2">
-                      {question.active && (
-                        <Radio className="h-4 w-4 mt-1 text-primary animate-pulse" />
+                    {editingId === question.id ? (
+                      <form onSubmit={handleEditSubmit} className="space-y-2">
+                        <div className="flex gap-2">
+                          <Input
+                            value={editText}
+                            onChange={(e) => setEditText(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Escape' && cancelEditing()}
+                            disabled={disabled}
+                            autoFocus
+                            className="flex-1"
+                            aria-label="Question text"
+                          />
+                          <Button type="submit" size="icon" disabled={!canSaveEdit || disabled} aria-label="Save question">
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button type="button" size="icon" variant="ghost" onClick={cancelEditing} aria-label="Cancel editing">
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        {editOptions.map((option, index) => (
+                          <Input
+                            key={option.id}
+                            value={option.label}
+                            onChange={(e) => setEditOptions(prev =>
+                              prev.map(existing => existing.id === option.id ? { ...existing, label: e.target.value } : existing)
+                            )}
+                            disabled={disabled}
+                            aria-label={`Option ${index + 1}`}
+                          />
+                        ))}
+                        <div className="flex flex-wrap items-center gap-2">
+                          {question.kind === 'scale' && (
+                            <>
+                              <Label htmlFor={`edit-scale-${question.id}`} className="text-sm">Rate from 1 to</Label>
+                              <Select
+                                value={String(editScaleMax)}
+                                onValueChange={(value) => setEditScaleMax(Number(value))}
+                                disabled={disabled}
+                              >
+                                <SelectTrigger id={`edit-scale-${question.id}`} className="w-20">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {[...new Set([...SCALE_MAXIMUMS, scaleRange(question).max])].map(value => (
+                                    <SelectItem key={value} value={String(value)}>{value}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </>
+                          )}
+                          <Label htmlFor={`edit-duration-${question.id}`} className="text-sm">Time limit</Label>
+                          <Select
+                            value={editDuration ? String(editDuration) : NO_TIME_LIMIT}
+                            onValueChange={(value) => setEditDuration(value === NO_TIME_LIMIT ? undefined : Number(value))}
+                            disabled={disabled}
+                          >
+                            <SelectTrigger id={`edit-duration-${question.id}`} className="w-36">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_TIME_LIMIT}>None</SelectItem>
+                              {[...new Set([...DURATIONS, ...(question.durationSeconds ? [question.durationSeconds] : [])])]
+                                .map(seconds => (
+                                  <SelectItem key={seconds} value={String(seconds)}>{formatDuration(seconds)}</SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                          {question.active && question.closesAt && (
+                            <span className="text-xs text-muted-foreground">applies from the next activation</span>
+                          )}
+                        </div>
+                      </form>
+                    ) : (
+                      <div className="flex items-start gap-2">
+                        {question.active && (
+                          <Radio className="h-4 w-4 mt-1 text-primary animate-pulse" />
+                        )}
+                        <p className="font-medium">{question.text}</p>
+                      </div>
+                    )}
+                    {isChoiceQuestion(question) && (
+                      <ul className="text-sm text-muted-foreground space-y-1 pl-1">
+                        {question.options?.map(option => (
+                          <li key={option.id} className="flex items-center gap-2">
+                            {question.correctOptionIds?.includes(option.id)
+                              ? <CircleCheck className="h-3.5 w-3.5 text-success" aria-label="Correct answer" />
+                              : <span className="h-3.5 w-3.5" />}
+                            {option.label}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <div className="flex flex-wrap gap-2">
+                      <Badge variant={question.active ? 'default' : 'secondary'}>
+                        {question.active ? 'Active' : 'Inactive'}
+                      </Badge>
+                      {question.kind && question.kind !== 'text' && (
+                        <Badge variant="outline">
+                          {question.kind === 'scale'
+                            ? `${KIND_LABELS.scale} (${scaleRange(question).min}-${scaleRange(question).max})`
+                            : KIND_LABELS[question.kind]}
+                        </Badge>
+                      )}
+                      {isQuizQuestion(question) && (
+                        <Badge variant="outline">{question.revealedAt ? 'Quiz • revealed' : 'Quiz'}</Badge>
+                      )}
+                      {question.durationSeconds && (
+                        question.active && question.closesAt
+                          ? <Countdown closesAt={question.closesAt} />
+                          : <Badge variant="outline">{formatDuration(question.durationSeconds)} limit</Badge>
+                      )}
+                      {answerPolicyOf(question) !== 'single' && (
+                        <Badge variant="outline">{ANSWER_POLICY_LABELS[answerPolicyOf(question)]}</Badge>
+                      )}
+                      {question.publishedResults && (
+                        <Badge variant="outline">Results published</Badge>
                       )}
-                      <p className="font-medium">{question.text}</p>
                     </div>
-                    <Badge variant={question.active ? 'default' : 'secondary'}>
-                      {question.active ? 'Active' : 'Inactive'}
-                    </Badge>
                   </div>
                   <div className="flex items-center gap-2">
+                    {isQuizQuestion(question) && !question.revealedAt && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onRevealAnswer(question.id)}
+                        disabled={disabled}
+                      >
+                        <Eye className="h-4 w-4 mr-2" />
+                        Reveal answer
+                      </Button>
+                    )}
+                    {!question.active && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => onPublishResults(question.id)}
+                        disabled={disabled}
+                      >
+                        <Share2 className="h-4 w-4 mr-2" />
+                        {question.publishedResults ? 'Update results' : 'Publish results'}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => startEditing(question)}
+                      disabled={disabled || editingId !== null}
+                      aria-label="Edit question"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setQuestionToDelete(question)}
+                      disabled={disabled}
+                      className="text-destructive hover:text-destructive"
+                      aria-label="Delete question"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
                     <Label htmlFor={`toggle-${question.id}`} className="text-sm">
                       {question.active ? 'Active' : 'Activate'}
                     </Label>
@@ -137,6 +607,25 @@ export function QuestionManager({
           )}
         </CardContent>
       </Card>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={questionToDelete !== null} onOpenChange={(open) => !open && setQuestionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Question?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{questionToDelete?.text}" will be removed for all attendees, together with its answers.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-destructive text-destructive-foreground hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,66 @@
+/**
+ * Quiz Score Card Component
+ * 
+ * Shows an attendee their quiz score and rank after each reveal
+ */
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import type { AnswerInput, LeaderboardEntry, Question } from '@/types/waku';
+import { isCorrectAnswer, leaderboardRank } from '@/lib/quiz';
+import { Trophy, CircleCheck, CircleX } from 'lucide-react';
+
+interface QuizScoreCardProps {
+  leaderboard: LeaderboardEntry[];
+  senderId: string;
+  revealedQuestion?: Question; // the question revealed last
+  submittedAnswer?: AnswerInput; // our answer to it
+}
+
+export function QuizScoreCard({ leaderboard, senderId, revealedQuestion, submittedAnswer }: QuizScoreCardProps) {
+  const entry = leaderboard.find(e => e.senderId === senderId);
+  const rank = leaderboardRank(leaderboard, senderId);
+  const correctLabels = revealedQuestion?.options
+    ?.filter(option => revealedQuestion.correctOptionIds?.includes(option.id))
+    .map(option => option.label)
+    .join(', ');
+
+  return (
+    <Card className="mb-6 shadow-lg border-primary/30">
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Trophy className="h-5 w-5 text-primary" />
+          Your score
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-baseline gap-4">
+          <span className="text-3xl font-bold">{entry?.points ?? 0} pts</span>
+          {rank !== null && (
+            <span className="text-muted-foreground">
+              #{rank} of {leaderboard.length} • {entry?.correct ?? 0} correct
+            </span>
+          )}
+        </div>
+        {revealedQuestion && (
+          submittedAnswer ? (
+            isCorrectAnswer(revealedQuestion, submittedAnswer.optionIds) ? (
+              <p className="flex items-center gap-2 text-sm text-success">
+                <CircleCheck className="h-4 w-4" />
+                You got "{revealedQuestion.text}" right!
+              </p>
+            ) : (
+              <p className="flex items-center gap-2 text-sm text-destructive">
+                <CircleX className="h-4 w-4" />
+                Not quite, the answer was: {correctLabels}
+              </p>
+            )
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              You didn't answer "{revealedQuestion.text}". The answer was: {correctLabels}
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,25 +1,51 @@
 /**
  * Results View Component
  * 
- * Displays answers with various visualizations
+ * Displays answers with various visualizations.
+ * Choice questions are shown as vote counts per option instead of grouped text,
+ * scale and NPS questions as a rating histogram with statistics.
+ * Free-text answers are grouped by meaning (typos, word forms, admin-defined synonyms);
+ * the admin can fix groups by dragging one onto another to merge, or splitting them.
+ * Clicking a word in the word cloud lists the answers that use it.
+ * The chart on screen can be downloaded as PNG or SVG for slides.
+ * Every question also has a timeline of when its answers arrived.
  */
 
-import { useMemo, useState, useEffect } from 'react';
+import { useMemo, useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { PieChart, Pie, Cell, ResponsiveContainer, Legend, Tooltip } from 'recharts';
-import type { Question, Answer } from '@/types/waku';
-import { BarChart3, List, Cloud } from 'lucide-react';
+import type { Question, Answer, AnswerGroupAssignments, SynonymMap } from '@/types/waku';
+import { countedAnswers } from '@/lib/answers';
+import { answersWithWord, countWords, normalizeAnswer, type AnswerGroup } from '@/lib/results';
+import { clusterAnswers, mergeAnswerGroups, splitAnswerGroup } from '@/lib/clustering';
+import { isChoiceQuestion, isScaleQuestion } from '@/lib/questions';
+import { ChoiceResults } from '@/components/ChoiceResults';
+import { ScaleResults } from '@/components/ScaleResults';
+import { WordCloud } from '@/components/WordCloud';
+import { SynonymEditor } from '@/components/SynonymEditor';
+import { AnswerTimeline } from '@/components/AnswerTimeline';
+import { chartToSvg, findChartSvg, svgToPng } from '@/lib/chartImage';
+import { downloadFile } from '@/lib/export';
+import { BarChart3, List, Cloud, GripVertical, Ungroup, RotateCcw, ImageDown, Activity, Ban } from 'lucide-react';
+import { toast } from 'sonner';
 
 interface ResultsViewProps {
   questions: Question[];
   answers: Answer[];
+  onSynonymsChange?: (questionId: string, synonyms: SynonymMap) => void;
+  onGroupAssignmentsChange?: (questionId: string, assignments: AnswerGroupAssignments) => void;
 }
 
-export function ResultsView({ questions, answers }: ResultsViewProps) {
+export function ResultsView({ questions, answers, onSynonymsChange, onGroupAssignmentsChange }: ResultsViewProps) {
   // Use state to track selected question
   const [selectedQuestionId, setSelectedQuestionId] = useState<string | null>(null);
+  const [selectedWord, setSelectedWord] = useState<string | null>(null);
+  const [draggedGroup, setDraggedGroup] = useState<AnswerGroup | null>(null);
+  const [dragOverText, setDragOverText] = useState<string | null>(null);
+  const resultsRef = useRef<HTMLDivElement>(null);
 
   // Auto-select active question or first question on mount/change
   useEffect(() => {
@@ -36,40 +62,54 @@ export function ResultsView({ questions, answers }: ResultsViewProps) {
 
   const questionAnswers = useMemo(() => {
     if (!selectedQuestion) return [];
-    return answers.filter(a => a.questionId === selectedQuestion.id);
+    return countedAnswers(selectedQuestion, answers);
   }, [selectedQuestion, answers]);
 
-  // Normalize answer text for grouping
-  const normalizeAnswer = (text: string): string => {
-    return text
-      .toLowerCase()
-      .trim()
-      .replace(/[.,!?;:'"]+/g, '') // Remove punctuation
-      .replace(/\s+/g, ' '); // Replace multiple spaces with single space
+  // Generate grouped answers with frequency for list view
+  const groupedAnswers = useMemo(
+    () => clusterAnswers(questionAnswers, selectedQuestion?.synonyms, selectedQuestion?.groupAssignments),
+    [questionAnswers, selectedQuestion?.synonyms, selectedQuestion?.groupAssignments]
+  );
+
+  const canEditGroups = !!onGroupAssignmentsChange;
+  const hasManualGroups = Object.keys(selectedQuestion?.groupAssignments ?? {}).length > 0;
+
+  const handleMergeDrop = (target: AnswerGroup) => {
+    if (selectedQuestion && draggedGroup && draggedGroup.text !== target.text) {
+      onGroupAssignmentsChange?.(
+        selectedQuestion.id,
+        mergeAnswerGroups(selectedQuestion.groupAssignments, draggedGroup, target)
+      );
+    }
+    setDraggedGroup(null);
+    setDragOverText(null);
   };
 
-  // Generate grouped answers with frequency for list view
-  const groupedAnswers = useMemo(() => {
-    const frequency = new Map<string, { text: string; count: number; firstTimestamp: number }>();
-    
-    questionAnswers.forEach(answer => {
-      const normalized = normalizeAnswer(answer.text);
-      const existing = frequency.get(normalized);
-      
-      if (existing) {
-        existing.count += 1;
+  const handleDownloadChart = async (format: 'png' | 'svg') => {
+    const chart = resultsRef.current && findChartSvg(resultsRef.current);
+    if (!selectedQuestion || !chart) {
+      toast.error('Open a chart to download it');
+      return;
+    }
+
+    const { svg, width, height } = chartToSvg(chart, selectedQuestion.text);
+    const filename = `${selectedQuestion.id}-results.${format}`;
+    try {
+      if (format === 'svg') {
+        downloadFile(filename, svg, 'image/svg+xml');
       } else {
-        frequency.set(normalized, {
-          text: answer.text, // Keep original for display
-          count: 1,
-          firstTimestamp: answer.timestamp
-        });
+        downloadFile(filename, await svgToPng(svg, width, height), 'image/png');
       }
-    });
+    } catch (error) {
+      console.error('[ResultsView] Chart download failed:', error);
+      toast.error('Could not create the chart image');
+    }
+  };
 
-    return Array.from(frequency.values())
-      .sort((a, b) => b.count - a.count);
-  }, [questionAnswers]);
+  const handleSplit = (group: AnswerGroup) => {
+    if (!selectedQuestion) return;
+    onGroupAssignmentsChange?.(selectedQuestion.id, splitAnswerGroup(selectedQuestion.groupAssignments, group));
+  };
 
   // Generate frequency data for pie chart
   const frequencyData = useMemo(() => {
@@ -93,24 +133,16 @@ export function ResultsView({ questions, answers }: ResultsViewProps) {
   ];
 
   // Word cloud data
-  const wordCloudData = useMemo(() => {
-    const words = new Map<string, number>();
-    
-    questionAnswers.forEach(answer => {
-      // Split into words and count frequency
-      answer.text.toLowerCase().split(/\s+/).forEach(word => {
-        const cleaned = word.replace(/[^\w]/g, '');
-        if (cleaned.length > 2) { // Skip very short words
-          words.set(cleaned, (words.get(cleaned) || 0) + 1);
-        }
-      });
-    });
+  const wordCloudData = useMemo(() => countWords(questionAnswers, 80), [questionAnswers]);
 
-    return Array.from(words.entries())
-      .map(([word, count]) => ({ word, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 20);
-  }, [questionAnswers]);
+  useEffect(() => {
+    setSelectedWord(null);
+  }, [selectedQuestionId]);
+
+  const selectedWordAnswers = useMemo(
+    () => selectedWord ? answersWithWord(questionAnswers, selectedWord) : [],
+    [questionAnswers, selectedWord]
+  );
 
   if (questions.length === 0) {
     return (
@@ -128,14 +160,28 @@ export function ResultsView({ questions, answers }: ResultsViewProps) {
     <div className="space-y-6">
       {/* Question Selector */}
       <Card className="shadow-lg">
-        <CardHeader>
-          <CardTitle>Select Question</CardTitle>
-          <CardDescription>View results for specific questions</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Select Question</CardTitle>
+            <CardDescription>View results for specific questions</CardDescription>
+          </div>
+          {selectedQuestion && (
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleDownloadChart('png')}>
+                <ImageDown className="h-4 w-4 mr-2" />
+                PNG
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleDownloadChart('svg')}>
+                <ImageDown className="h-4 w-4 mr-2" />
+                SVG
+              </Button>
+            </div>
+          )}
         </CardHeader>
         <CardContent>
           <div className="flex flex-wrap gap-2">
             {questions.map((q) => {
-              const count = answers.filter(a => a.questionId === q.id).length;
+              const count = countedAnswers(q, answers).length;
               return (
                 <Badge
                   key={q.id}
@@ -148,139 +194,261 @@ export function ResultsView({ questions, answers }: ResultsViewProps) {
               );
             })}
           </div>
+          {!!selectedQuestion?.rejectedAnswers && (
+            <p className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+              <Ban className="h-4 w-4" />
+              {selectedQuestion.rejectedAnswers} submission{selectedQuestion.rejectedAnswers !== 1 ? 's' : ''} rejected
+              (repeated under the answer policy or sent after the question closed)
+            </p>
+          )}
         </CardContent>
       </Card>
 
       {/* Results */}
-      {selectedQuestion && (
-        <Tabs defaultValue="list" className="space-y-4">
-          <TabsList className="grid w-full max-w-md grid-cols-3">
-            <TabsTrigger value="list">
-              <List className="h-4 w-4 mr-2" />
-              List
-            </TabsTrigger>
-            <TabsTrigger value="chart">
-              <BarChart3 className="h-4 w-4 mr-2" />
-              Chart
-            </TabsTrigger>
-            <TabsTrigger value="cloud">
-              <Cloud className="h-4 w-4 mr-2" />
-              Word Cloud
-            </TabsTrigger>
-          </TabsList>
+      <div ref={resultsRef} className="space-y-6">
+        {selectedQuestion && (isChoiceQuestion(selectedQuestion) || isScaleQuestion(selectedQuestion)) && (
+          <Tabs defaultValue="results" className="space-y-4">
+            <TabsList className="grid w-full max-w-xs grid-cols-2">
+              <TabsTrigger value="results">
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Results
+              </TabsTrigger>
+              <TabsTrigger value="timeline">
+                <Activity className="h-4 w-4 mr-2" />
+                Timeline
+              </TabsTrigger>
+            </TabsList>
 
-          {/* List View */}
-          <TabsContent value="list">
-            <Card className="shadow-lg">
-              <CardHeader>
-                <CardTitle>Grouped Answers</CardTitle>
-                <CardDescription>
-                  {questionAnswers.length} answer{questionAnswers.length !== 1 ? 's' : ''} received
-                  {groupedAnswers.length !== questionAnswers.length && 
-                    ` • ${groupedAnswers.length} unique`}
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {groupedAnswers.length === 0 ? (
-                  <p className="text-center text-muted-foreground py-8">
-                    No answers yet.
-                  </p>
-                ) : (
-                  <div className="space-y-2 max-h-96 overflow-y-auto">
-                    {groupedAnswers.map((group, index) => (
-                      <div
-                        key={`${normalizeAnswer(group.text)}-${index}`}
-                        className="p-3 border rounded-lg bg-card hover:bg-accent/5 transition-colors"
-                      >
-                        <div className="flex items-start justify-between gap-3">
-                          <p className="font-medium flex-1">{group.text}</p>
-                          <Badge variant="secondary" className="shrink-0">
-                            {group.count}×
-                          </Badge>
-                        </div>
-                        <p className="text-xs text-muted-foreground mt-1">
-                          First received: {new Date(group.firstTimestamp).toLocaleTimeString()}
-                        </p>
-                      </div>
-                    ))}
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
+            <TabsContent value="results">
+              {isChoiceQuestion(selectedQuestion)
+                ? <ChoiceResults question={selectedQuestion} answers={questionAnswers} />
+                : <ScaleResults question={selectedQuestion} answers={questionAnswers} />}
+            </TabsContent>
 
-          {/* Pie Chart View */}
-          <TabsContent value="chart">
-            <Card className="shadow-lg">
-              <CardHeader>
-                <CardTitle>Answer Distribution</CardTitle>
-                <CardDescription>Top 10 most common answers</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {frequencyData.length === 0 ? (
-                  <p className="text-center text-muted-foreground py-8">
-                    No data to display.
-                  </p>
-                ) : (
-                  <ResponsiveContainer width="100%" height={400}>
-                    <PieChart>
-                      <Pie
-                        data={frequencyData}
-                        cx="50%"
-                        cy="50%"
-                        labelLine={false}
-                        label={({ text, count }) => `${text}: ${count}`}
-                        outerRadius={120}
-                        fill="#8884d8"
-                        dataKey="count"
-                      >
-                        {frequencyData.map((entry, index) => (
-                          <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
-                        ))}
-                      </Pie>
-                      <Tooltip />
-                      <Legend />
-                    </PieChart>
-                  </ResponsiveContainer>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
+            <TabsContent value="timeline">
+              <AnswerTimeline question={selectedQuestion} answers={questionAnswers} />
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {selectedQuestion && !isChoiceQuestion(selectedQuestion) && !isScaleQuestion(selectedQuestion) && (
+          <Tabs defaultValue="list" className="space-y-4">
+            <TabsList className="grid w-full max-w-lg grid-cols-4">
+              <TabsTrigger value="list">
+                <List className="h-4 w-4 mr-2" />
+                List
+              </TabsTrigger>
+              <TabsTrigger value="chart">
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Chart
+              </TabsTrigger>
+              <TabsTrigger value="cloud">
+                <Cloud className="h-4 w-4 mr-2" />
+                Word Cloud
+              </TabsTrigger>
+              <TabsTrigger value="timeline">
+                <Activity className="h-4 w-4 mr-2" />
+                Timeline
+              </TabsTrigger>
+            </TabsList>
 
-          {/* Word Cloud View */}
-          <TabsContent value="cloud">
-            <Card className="shadow-lg">
-              <CardHeader>
-                <CardTitle>Word Frequency</CardTitle>
-                <CardDescription>Most common words in answers</CardDescription>
-              </CardHeader>
-              <CardContent>
-                {wordCloudData.length === 0 ? (
-                  <p className="text-center text-muted-foreground py-8">
-                    No data to display.
-                  </p>
-                ) : (
-                  <div className="flex flex-wrap gap-3 justify-center py-8">
-                    {wordCloudData.map((item, index) => (
-                      <span
-                        key={item.word}
-                        className="font-bold"
-                        style={{
-                          fontSize: `${Math.max(16, Math.min(48, item.count * 8))}px`,
-                          color: COLORS[index % COLORS.length],
-                          opacity: 0.8
-                        }}
+            {/* List View */}
+            <TabsContent value="list">
+              <Card className="shadow-lg">
+                <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle>Grouped Answers</CardTitle>
+                    <CardDescription>
+                      {questionAnswers.length} answer{questionAnswers.length !== 1 ? 's' : ''} received
+                      {groupedAnswers.length !== questionAnswers.length && 
+                        ` • ${groupedAnswers.length} unique`}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    {canEditGroups && hasManualGroups && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onGroupAssignmentsChange(selectedQuestion.id, {})}
                       >
-                        {item.word}
-                      </span>
-                    ))}
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Reset grouping
+                      </Button>
+                    )}
+                    {onSynonymsChange && (
+                      <SynonymEditor
+                        synonyms={selectedQuestion.synonyms}
+                        onSave={(synonyms) => onSynonymsChange(selectedQuestion.id, synonyms)}
+                      />
+                    )}
                   </div>
-                )}
-              </CardContent>
-            </Card>
-          </TabsContent>
-        </Tabs>
-      )}
+                </CardHeader>
+                <CardContent>
+                  {groupedAnswers.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No answers yet.
+                    </p>
+                  ) : (
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                      {canEditGroups && groupedAnswers.length > 1 && (
+                        <p className="text-xs text-muted-foreground">
+                          Drag a group onto another to merge them
+                        </p>
+                      )}
+                      {groupedAnswers.map((group, index) => (
+                        <div
+                          key={`${normalizeAnswer(group.text)}-${index}`}
+                          draggable={canEditGroups}
+                          onDragStart={(e) => {
+                            e.dataTransfer.effectAllowed = 'move';
+                            setDraggedGroup(group);
+                          }}
+                          onDragOver={(e) => {
+                            if (!draggedGroup) return;
+                            e.preventDefault();
+                            setDragOverText(group.text);
+                          }}
+                          onDragLeave={() => setDragOverText(prev => prev === group.text ? null : prev)}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            handleMergeDrop(group);
+                          }}
+                          onDragEnd={() => {
+                            setDraggedGroup(null);
+                            setDragOverText(null);
+                          }}
+                          className={`p-3 border rounded-lg bg-card hover:bg-accent/5 transition-colors ${
+                            draggedGroup?.text === group.text ? 'opacity-50' : ''
+                          } ${dragOverText === group.text && draggedGroup?.text !== group.text ? 'ring-2 ring-primary' : ''}`}
+                        >
+                          <div className="flex items-start justify-between gap-3">
+                            {canEditGroups && (
+                              <GripVertical
+                                className="h-4 w-4 mt-1 shrink-0 text-muted-foreground cursor-grab"
+                                aria-label="Drag to merge"
+                              />
+                            )}
+                            <p className="font-medium flex-1">{group.text}</p>
+                            {canEditGroups && (group.members?.length ?? 0) > 1 && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 shrink-0"
+                                onClick={() => handleSplit(group)}
+                                aria-label="Split group"
+                                title="Split group"
+                              >
+                                <Ungroup className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Badge variant="secondary" className="shrink-0">
+                              {group.count}×
+                            </Badge>
+                          </div>
+                          {group.variants && group.variants.length > 0 && (
+                            <p className="text-sm text-muted-foreground mt-1">
+                              Also: {group.variants.join(', ')}
+                            </p>
+                          )}
+                          <p className="text-xs text-muted-foreground mt-1">
+                            First received: {new Date(group.firstTimestamp).toLocaleTimeString()}
+                          </p>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* Pie Chart View */}
+            <TabsContent value="chart">
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle>Answer Distribution</CardTitle>
+                  <CardDescription>Top 10 most common answers</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {frequencyData.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No data to display.
+                    </p>
+                  ) : (
+                    <ResponsiveContainer width="100%" height={400}>
+                      <PieChart>
+                        <Pie
+                          data={frequencyData}
+                          cx="50%"
+                          cy="50%"
+                          labelLine={false}
+                          label={({ text, count }) => `${text}: ${count}`}
+                          outerRadius={120}
+                          fill="#8884d8"
+                          dataKey="count"
+                        >
+                          {frequencyData.map((entry, index) => (
+                            <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                          ))}
+                        </Pie>
+                        <Tooltip />
+                        <Legend />
+                      </PieChart>
+                    </ResponsiveContainer>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* Word Cloud View */}
+            <TabsContent value="cloud">
+              <Card className="shadow-lg">
+                <CardHeader>
+                  <CardTitle>Word Cloud</CardTitle>
+                  <CardDescription>Most common words in answers • click a word to see its answers</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {wordCloudData.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">
+                      No data to display.
+                    </p>
+                  ) : (
+                    <div className="space-y-4">
+                      <WordCloud
+                        words={wordCloudData}
+                        colors={COLORS}
+                        selectedWord={selectedWord}
+                        onSelectWord={setSelectedWord}
+                      />
+                      {selectedWord && (
+                        <div className="space-y-2">
+                          <p className="text-sm font-medium">
+                            {selectedWordAnswers.length} answer{selectedWordAnswers.length !== 1 ? 's' : ''} with "{selectedWord}"
+                          </p>
+                          <div className="space-y-2 max-h-64 overflow-y-auto">
+                            {selectedWordAnswers.map(answer => (
+                              <div key={answer.id} className="p-3 border rounded-lg bg-card">
+                                <p>{answer.text}</p>
+                                <p className="text-xs text-muted-foreground mt-1">
+                                  {new Date(answer.timestamp).toLocaleTimeString()}
+                                </p>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* Timeline View */}
+            <TabsContent value="timeline">
+              <AnswerTimeline question={selectedQuestion} answers={questionAnswers} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,71 @@
+/**
+ * Scale Results Component
+ * 
+ * Rating histogram and statistics for scale and NPS questions
+ */
+
+import { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip } from 'recharts';
+import type { Question, Answer } from '@/types/waku';
+import { summarizeScale } from '@/lib/results';
+
+interface ScaleResultsProps {
+  question: Question;
+  answers: Answer[];
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 border rounded-lg bg-card text-center">
+      <p className="text-2xl font-bold">{value}</p>
+      <p className="text-xs text-muted-foreground">{label}</p>
+    </div>
+  );
+}
+
+const formatStat = (value: number | null) => value === null ? '–' : value.toFixed(1);
+
+export function ScaleResults({ question, answers }: ScaleResultsProps) {
+  const summary = useMemo(() => summarizeScale(question, answers), [question, answers]);
+  const { nps } = summary;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>{nps ? 'Net Promoter Score' : 'Ratings'}</CardTitle>
+        <CardDescription>
+          {summary.count} rating{summary.count !== 1 ? 's' : ''} received
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className={`grid gap-3 ${nps ? 'grid-cols-2 md:grid-cols-4' : 'grid-cols-3'}`}>
+          <Stat label="Responses" value={String(summary.count)} />
+          <Stat label="Mean" value={formatStat(summary.mean)} />
+          <Stat label="Median" value={formatStat(summary.median)} />
+          {nps && (
+            <Stat label="NPS" value={summary.count > 0 ? `${nps.score > 0 ? '+' : ''}${nps.score}` : '–'} />
+          )}
+        </div>
+
+        {nps && (
+          <p className="text-sm text-muted-foreground text-center">
+            {nps.promoters} promoter{nps.promoters !== 1 ? 's' : ''} (9-10) •{' '}
+            {nps.passives} passive{nps.passives !== 1 ? 's' : ''} (7-8) •{' '}
+            {nps.detractors} detractor{nps.detractors !== 1 ? 's' : ''} (0-6)
+          </p>
+        )}
+
+        <ResponsiveContainer width="100%" height={300}>
+          <BarChart data={summary.histogram}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="value" />
+            <YAxis allowDecimals={false} />
+            <Tooltip />
+            <Bar dataKey="count" name="Ratings" fill="hsl(250, 70%, 58%)" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </CardContent>
+    </Card>
+  );
+}
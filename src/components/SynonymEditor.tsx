@@ -0,0 +1,74 @@
+/**
+ * Synonym Editor Component
+ * 
+ * Dialog for the admin to tell the answer grouping which words mean the same thing
+ */
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import type { SynonymMap } from '@/types/waku';
+import { formatSynonyms, parseSynonyms } from '@/lib/clustering';
+import { Replace } from 'lucide-react';
+
+interface SynonymEditorProps {
+  synonyms?: SynonymMap;
+  onSave: (synonyms: SynonymMap) => void;
+}
+
+export function SynonymEditor({ synonyms, onSave }: SynonymEditorProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) setDraft(formatSynonyms(synonyms));
+    setOpen(nextOpen);
+  };
+
+  const handleSave = () => {
+    onSave(parseSynonyms(draft));
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Replace className="h-4 w-4 mr-2" />
+          Synonyms
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Synonyms</DialogTitle>
+          <DialogDescription>
+            One term per line, followed by the other ways people write it. Answers using any of
+            them are grouped together.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={'JavaScript: JS, ECMAScript\nTypeScript: TS'}
+          rows={8}
+          className="font-mono text-sm"
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave}>Save</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
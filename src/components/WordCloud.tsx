@@ -0,0 +1,121 @@
+/**
+ * Word Cloud Component
+ * 
+ * Spiral-packed word cloud (d3-cloud) sized relative to the most frequent word.
+ * Clicking a word selects it so the answers using it can be listed.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import cloud from 'd3-cloud';
+import type { WordCount } from '@/lib/results';
+
+const HEIGHT = 400;
+const MIN_FONT_SIZE = 14;
+const MAX_FONT_SIZE = 64;
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+const ROTATIONS = [0, 0, -90, 90];
+
+interface CloudWord extends cloud.Word {
+  text: string;
+  count: number;
+}
+
+interface WordCloudProps {
+  words: WordCount[];
+  colors: string[];
+  selectedWord: string | null;
+  onSelectWord: (word: string | null) => void;
+}
+
+function fontSize(count: number, maxCount: number): number {
+  return MIN_FONT_SIZE + (MAX_FONT_SIZE - MIN_FONT_SIZE) * (count / maxCount);
+}
+
+// Same word, same rotation, so words don't flip around as answers come in
+function rotationFor(word: string): number {
+  let hash = 0;
+  for (let i = 0; i < word.length; i++) {
+    hash = (hash * 31 + word.charCodeAt(i)) | 0;
+  }
+  return ROTATIONS[Math.abs(hash) % ROTATIONS.length];
+}
+
+// Seeded generator (mulberry32) so the same words always get the same layout
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function WordCloud({ words, colors, selectedWord, onSelectWord }: WordCloudProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [placedWords, setPlacedWords] = useState<CloudWord[]>([]);
+
+  // Follow the container width
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(entries => {
+      setWidth(Math.floor(entries[0].contentRect.width));
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (width === 0 || words.length === 0) {
+      setPlacedWords([]);
+      return;
+    }
+
+    const maxCount = Math.max(...words.map(w => w.count));
+    const layout = cloud<CloudWord>()
+      .size([width, HEIGHT])
+      .words(words.map(w => ({ text: w.word, count: w.count, size: fontSize(w.count, maxCount) })))
+      .padding(3)
+      .rotate(w => rotationFor(w.text))
+      .font(FONT_FAMILY)
+      .fontWeight(700)
+      .fontSize(w => w.size ?? MIN_FONT_SIZE)
+      .random(seededRandom(1))
+      .on('end', setPlacedWords);
+
+    layout.start();
+    return () => {
+      layout.stop();
+    };
+  }, [words, width]);
+
+  return (
+    <div ref={containerRef} className="w-full">
+      <svg width={width} height={HEIGHT} role="img" aria-label="Word cloud of answers">
+        <g transform={`translate(${width / 2},${HEIGHT / 2})`}>
+          {placedWords.map((word, index) => (
+            <text
+              key={word.text}
+              textAnchor="middle"
+              transform={`translate(${word.x},${word.y}) rotate(${word.rotate})`}
+              onClick={() => onSelectWord(word.text === selectedWord ? null : word.text)}
+              className="cursor-pointer transition-opacity"
+              style={{
+                fontFamily: FONT_FAMILY,
+                fontSize: word.size,
+                fontWeight: 700,
+                fill: colors[index % colors.length],
+                opacity: selectedWord && selectedWord !== word.text ? 0.3 : 0.9
+              }}
+            >
+              <title>{`${word.text}: ${word.count} answer${word.count !== 1 ? 's' : ''}`}</title>
+              {word.text}
+            </text>
+          ))}
+        </g>
+      </svg>
+    </div>
+  );
+}
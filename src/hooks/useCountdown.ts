@@ -0,0 +1,33 @@
+/**
+ * Countdown to a point in time, re-rendering as it ticks
+ *
+ * clockOffset is the estimated difference between the clock that set the deadline
+ * (the admin's) and ours, so every participant counts down to the same moment.
+ */
+
+import { useEffect, useState } from 'react';
+
+const TICK_MS = 250;
+
+function remainingUntil(deadline: number | undefined, clockOffset: number): number | null {
+  return deadline ? Math.max(0, deadline - (Date.now() + clockOffset)) : null;
+}
+
+export function useCountdown(deadline: number | undefined, clockOffset = 0): number | null {
+  const [remainingMs, setRemainingMs] = useState(() => remainingUntil(deadline, clockOffset));
+
+  useEffect(() => {
+    setRemainingMs(remainingUntil(deadline, clockOffset));
+    if (!deadline) return;
+
+    const interval = setInterval(() => {
+      const next = remainingUntil(deadline, clockOffset);
+      setRemainingMs(next);
+      if (next === 0) clearInterval(interval);
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [deadline, clockOffset]);
+
+  return remainingMs;
+}
@@ -5,16 +5,24 @@
  * Follow the TODOs and refer to WORKSHOP_GUIDE.md Part 2.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { WakuService, generateSenderId } from '@/lib/waku';
+import { useState, useEffect, useCallback } from 'react';
+import { WakuService, type ChannelSecurity } from '@/lib/waku';
 import type { WakuMessage } from '@/types/waku';
+import { getOrCreateIdentity } from '@/lib/identity';
+import { getIdentity } from '@/lib/storage';
 
-export function useWaku(instanceId: string | null) {
+/**
+ * @param instanceId - channel to join, or null to stay disconnected
+ * @param security - keys for signing/verifying admin control messages (keep the reference stable)
+ *   The attendee identity for the instance is added by the hook
+ */
+export function useWaku(instanceId: string | null, security?: ChannelSecurity) {
   const [isConnected, setIsConnected] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isReady, setIsReady] = useState(false);
-  const senderIdRef = useRef<string>(generateSenderId());
+  // Stable per instance and device, see lib/identity.ts ('' until the identity is loaded)
+  const [senderId, setSenderId] = useState<string>(() => (instanceId && getIdentity(instanceId)?.senderId) || '');
   
   // TODO 2.1: Get WakuService singleton instance
   const wakuService = null as any; // REPLACE THIS
@@ -32,11 +40,15 @@ export function useWaku(instanceId: string | null) {
         console.log('[useWaku] Getting singleton Waku service');
         
         // TODO: Setup health listener to update connection status
+
+        const identity = await getOrCreateIdentity(instanceId);
+        setSenderId(identity.senderId);
         
-        // TODO 2.2: Initialize Waku node (idempotent - only happens once)
+        // TODO 2.2: Configure the channel keys (security + identity), then initialize
+        // Waku node (idempotent - only happens once)
         console.log('[useWaku] Initializing Waku node');
         
-        // TODO 2.3: Get or create channel for this instance
+        // TODO 2.3: Get or create channel for this instance, as identity.senderId
         console.log('[useWaku] Joining channel:', instanceId);
         
         console.log('[useWaku] Channel ready, listeners can now be registered');
@@ -60,7 +72,7 @@ export function useWaku(instanceId: string | null) {
       }
       setIsReady(false);
     };
-  }, [instanceId, wakuService]);
+  }, [instanceId, security, wakuService]);
 
   // TODO 2.5: Implement sendMessage function with delivery callbacks
   // This function should:
@@ -77,7 +89,7 @@ export function useWaku(instanceId: string | null) {
     }
   ) => {
     throw new Error('sendMessage not implemented - see TODO 2.5');
-  }, [instanceId, wakuService]);
+  }, [instanceId, senderId, wakuService]);
 
   // TODO 2.6-2.7: Register message listener with WakuService
   // This function should:
@@ -103,6 +115,6 @@ export function useWaku(instanceId: string | null) {
     error,
     sendMessage,
     onMessage,
-    senderId: senderIdRef.current
+    senderId
   };
 }
@@ -0,0 +1,116 @@
+/**
+ * Answer bookkeeping helpers for the admin and results views
+ */
+
+import type { Answer, AnswerPolicy, Question } from '@/types/waku';
+
+/**
+ * The question's answer policy; questions from before policies keep an answer per
+ * attendee, the newest if they allowed answer changes
+ */
+export function answerPolicyOf(question: Question): AnswerPolicy {
+  return question.answerPolicy ?? (question.allowAnswerChanges ? 'latest' : 'single');
+}
+
+/**
+ * Whether attendees may update or retract their answer ('latest' policy)
+ */
+export function allowsAnswerChanges(question: Question): boolean {
+  return answerPolicyOf(question) === 'latest';
+}
+
+/**
+ * Whether attendees may submit further answers after their first ('unlimited' policy)
+ */
+export function allowsRepeatAnswers(question: Question): boolean {
+  return answerPolicyOf(question) === 'unlimited';
+}
+
+/**
+ * Add a submitted answer as the question's policy allows
+ * Returns null when the submission is rejected, including a 'latest' answer older
+ * than the one held; an answer already held is not a rejection
+ */
+export function applyAnswerSubmission(answers: Answer[], question: Question | undefined, answer: Answer): Answer[] | null {
+  if (answers.some(a => a.id === answer.id)) {
+    return answers;
+  }
+
+  const policy = question ? answerPolicyOf(question) : 'single';
+  const hasAnswered = answers.some(a => a.questionId === answer.questionId && a.senderId === answer.senderId);
+  if (policy === 'unlimited' || !hasAnswered) {
+    return [...answers, answer];
+  }
+  return policy === 'latest' ? applyAnswerUpdate(answers, answer) : null;
+}
+
+/**
+ * Replace a sender's answer to a question with a newer one
+ * Returns null for an update older than the answer already held (messages may arrive
+ * out of order), so the stale answer is rejected rather than applied
+ */
+export function applyAnswerUpdate(answers: Answer[], answer: Answer): Answer[] | null {
+  const previous = answers.filter(a => a.questionId === answer.questionId && a.senderId === answer.senderId);
+  if (previous.some(a => a.id === answer.id)) {
+    return answers;
+  }
+  if (previous.some(a => a.timestamp > answer.timestamp)) {
+    return null;
+  }
+
+  return [
+    ...answers.filter(a => !(a.questionId === answer.questionId && a.senderId === answer.senderId)),
+    answer
+  ];
+}
+
+/**
+ * Remove a sender's answers to a question
+ */
+export function applyAnswerRetraction(answers: Answer[], questionId: string, senderId: string): Answer[] {
+  return answers.filter(a => !(a.questionId === questionId && a.senderId === senderId));
+}
+
+/**
+ * Keep only the most recent answer from each sender
+ */
+export function latestAnswerPerSender(answers: Answer[]): Answer[] {
+  const latest = new Map<string, Answer>();
+  answers.forEach(answer => {
+    const existing = latest.get(answer.senderId);
+    if (!existing || answer.timestamp >= existing.timestamp) {
+      latest.set(answer.senderId, answer);
+    }
+  });
+  return answers.filter(answer => latest.get(answer.senderId) === answer);
+}
+
+/**
+ * Keep only the earliest answer from each sender
+ */
+export function firstAnswerPerSender(answers: Answer[]): Answer[] {
+  const first = new Map<string, Answer>();
+  answers.forEach(answer => {
+    const existing = first.get(answer.senderId);
+    if (!existing || answer.timestamp < existing.timestamp) {
+      first.set(answer.senderId, answer);
+    }
+  });
+  return answers.filter(answer => first.get(answer.senderId) === answer);
+}
+
+/**
+ * Answers counted for a question under its answer policy
+ * (answers stored before the policy was enforced may hold several per sender)
+ */
+export function countedAnswers(question: Question, answers: Answer[]): Answer[] {
+  const forQuestion = answers.filter(a => a.questionId === question.id);
+  switch (answerPolicyOf(question)) {
+    case 'unlimited':
+      return forQuestion;
+    case 'latest':
+      return latestAnswerPerSender(forQuestion);
+    default:
+      return firstAnswerPerSender(forQuestion);
+  }
+}
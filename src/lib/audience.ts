@@ -0,0 +1,69 @@
+/**
+ * Audience Q&A bookkeeping: questions attendees ask the speaker, their upvotes
+ * and the admin's moderation
+ */
+
+import type { AudienceQuestion, AudienceQuestionStatus } from '@/types/waku';
+
+const STATUS_ORDER: Record<AudienceQuestionStatus, number> = {
+  pinned: 0,
+  open: 1,
+  answered: 2,
+  hidden: 3
+};
+
+/**
+ * Add a newly posted question, ignoring repeats
+ */
+export function addAudienceQuestion(questions: AudienceQuestion[], question: AudienceQuestion): AudienceQuestion[] {
+  if (questions.some(q => q.id === question.id)) return questions;
+  return [...questions, question];
+}
+
+/**
+ * Add or withdraw a sender's upvote; each sender counts once per question
+ */
+export function applyUpvote(
+  questions: AudienceQuestion[],
+  questionId: string,
+  senderId: string,
+  upvoted: boolean
+): AudienceQuestion[] {
+  return questions.map(q => {
+    if (q.id !== questionId || q.upvoterIds.includes(senderId) === upvoted) return q;
+    return {
+      ...q,
+      upvoterIds: upvoted ? [...q.upvoterIds, senderId] : q.upvoterIds.filter(id => id !== senderId)
+    };
+  });
+}
+
+export function applyModeration(
+  questions: AudienceQuestion[],
+  questionId: string,
+  status: AudienceQuestionStatus
+): AudienceQuestion[] {
+  return questions.map(q => q.id === questionId ? { ...q, status } : q);
+}
+
+/**
+ * Combine our questions with the admin's snapshot, which wins for anything it contains
+ */
+export function mergeAudienceQuestions(
+  local: AudienceQuestion[],
+  snapshot: AudienceQuestion[]
+): AudienceQuestion[] {
+  const snapshotIds = new Set(snapshot.map(q => q.id));
+  return [...snapshot, ...local.filter(q => !snapshotIds.has(q.id))];
+}
+
+/**
+ * Pinned first, then open and answered questions by upvotes (oldest first on ties), hidden last
+ */
+export function sortAudienceQuestions(questions: AudienceQuestion[]): AudienceQuestion[] {
+  return [...questions].sort((a, b) =>
+    STATUS_ORDER[a.status] - STATUS_ORDER[b.status] ||
+    b.upvoterIds.length - a.upvoterIds.length ||
+    a.timestamp - b.timestamp
+  );
+}
@@ -0,0 +1,82 @@
+/**
+ * Chart images for sharing: turn a rendered chart (any SVG chart: recharts or the
+ * word cloud) into a standalone SVG or PNG with the question as its title.
+ */
+
+const TITLE_HEIGHT = 56;
+const PADDING = 16;
+const FONT_FAMILY = 'ui-sans-serif, system-ui, sans-serif';
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * The main chart in a container: its largest SVG (legend icons are SVGs too)
+ */
+export function findChartSvg(container: HTMLElement): SVGSVGElement | null {
+  const svgs = Array.from(container.querySelectorAll('svg'));
+  const area = (svg: SVGSVGElement) => {
+    const { width, height } = svg.getBoundingClientRect();
+    return width * height;
+  };
+  return svgs.reduce<SVGSVGElement | null>((largest, svg) =>
+    !largest || area(svg) > area(largest) ? svg : largest, null);
+}
+
+/**
+ * Standalone SVG document: white background, title, then the chart
+ */
+export function chartToSvg(chart: SVGSVGElement, title: string): { svg: string; width: number; height: number } {
+  const { width: chartWidth, height: chartHeight } = chart.getBoundingClientRect();
+  const width = Math.ceil(chartWidth) + PADDING * 2;
+  const height = Math.ceil(chartHeight) + TITLE_HEIGHT + PADDING;
+
+  const clone = chart.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('x', String(PADDING));
+  clone.setAttribute('y', String(TITLE_HEIGHT));
+  clone.setAttribute('width', String(Math.ceil(chartWidth)));
+  clone.setAttribute('height', String(Math.ceil(chartHeight)));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="${FONT_FAMILY}">`,
+    `<rect width="100%" height="100%" fill="#ffffff"/>`,
+    `<text x="${PADDING}" y="${PADDING + 20}" font-size="20" font-weight="700" fill="#111827">${escapeXml(title)}</text>`,
+    new XMLSerializer().serializeToString(clone),
+    '</svg>'
+  ].join('');
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterize a standalone SVG at the given scale (2 for sharp slides)
+ */
+export function svgToPng(svg: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width * scale;
+      canvas.height = height * scale;
+      const context = canvas.getContext('2d');
+      if (!context) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas not available'));
+        return;
+      }
+
+      context.scale(scale, scale);
+      context.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render chart image'));
+    };
+    image.src = url;
+  });
+}
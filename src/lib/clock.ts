@@ -0,0 +1,11 @@
+/**
+ * Estimating the admin's clock from the messages it sends
+ *
+ * Each admin message gives (admin clock - our clock - delivery delay). The largest
+ * sample has the least delay, so it is the best estimate of the clock difference.
+ */
+
+export function estimateClockOffset(previous: number | null, adminTimestamp: number, now = Date.now()): number {
+  const sample = adminTimestamp - now;
+  return previous === null ? sample : Math.max(previous, sample);
+}
@@ -0,0 +1,180 @@
+/**
+ * Fuzzy grouping of free-text answers
+ * 
+ * Answers are reduced to a key (normalized, synonyms replaced, words stemmed) and
+ * keys within a small edit distance of each other end up in the same group, so
+ * "JavaScript", "javascrpt" and - with a synonym - "JS" are counted together.
+ * Groups the admin merged or split by hand override the automatic grouping.
+ */
+
+import type { Answer, AnswerGroupAssignments, SynonymMap } from '@/types/waku';
+import { groupAnswersByText, normalizeAnswer, type AnswerGroup } from '@/lib/results';
+
+/**
+ * Light suffix stripping, enough to merge plurals and verb forms
+ */
+export function stemWord(word: string): string {
+  if (word.length <= 3) return word;
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('ly') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Map every variant (normalized) to its canonical term (normalized)
+ */
+function synonymLookup(synonyms: SynonymMap = {}): Map<string, string> {
+  const lookup = new Map<string, string>();
+  Object.entries(synonyms).forEach(([canonical, variants]) => {
+    const target = normalizeAnswer(canonical);
+    variants.forEach(variant => lookup.set(normalizeAnswer(variant), target));
+  });
+  return lookup;
+}
+
+function clusterKey(text: string, lookup: Map<string, string>): string {
+  const normalized = normalizeAnswer(text);
+  const phrase = lookup.get(normalized) ?? normalized;
+  return phrase
+    .split(' ')
+    .map(word => stemWord(lookup.get(word) ?? word))
+    .join(' ');
+}
+
+// Edits allowed between two keys: none for short words, more for longer answers
+function maxDistance(length: number): number {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return Math.min(3, Math.floor(length / 5));
+}
+
+function isSimilar(a: string, b: string): boolean {
+  const limit = maxDistance(Math.min(a.length, b.length));
+  return editDistance(a, b, limit) <= limit;
+}
+
+/**
+ * Levenshtein distance, giving up (returning limit + 1) once it exceeds the limit
+ */
+export function editDistance(a: string, b: string, limit = Infinity): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Group answers by what they mean, most frequent first
+ * Each group shows its most common wording and lists the other wordings as variants.
+ * Wordings with a manual assignment only ever join the group they were assigned to.
+ */
+export function clusterAnswers(
+  answers: Answer[],
+  synonyms?: SynonymMap,
+  assignments: AnswerGroupAssignments = {}
+): AnswerGroup[] {
+  const lookup = synonymLookup(synonyms);
+  const clusters: { key: string; manual: boolean; groups: AnswerGroup[] }[] = [];
+
+  // Exact groups come most frequent first, so each cluster is seeded by its most common wording
+  groupAnswersByText(answers).forEach(group => {
+    const assigned = assignments[normalizeAnswer(group.text)];
+    const key = assigned ?? clusterKey(group.text, lookup);
+    const cluster = assigned !== undefined
+      ? clusters.find(c => c.manual && c.key === assigned)
+      : clusters.find(c => !c.manual && isSimilar(c.key, key));
+
+    if (cluster) {
+      cluster.groups.push(group);
+    } else {
+      clusters.push({ key, manual: assigned !== undefined, groups: [group] });
+    }
+  });
+
+  return clusters
+    .map(({ groups }) => ({
+      text: groups[0].text,
+      count: groups.reduce((sum, group) => sum + group.count, 0),
+      firstTimestamp: Math.min(...groups.map(group => group.firstTimestamp)),
+      variants: groups.slice(1).map(group => group.text),
+      members: groups.map(group => normalizeAnswer(group.text))
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+// Move everything assigned to one of the given heads (and the members themselves) to a new head
+function reassign(
+  assignments: AnswerGroupAssignments,
+  members: string[],
+  headFor: (wording: string) => string
+): AnswerGroupAssignments {
+  const oldHeads = new Set(members.map(member => assignments[member]).filter(Boolean));
+  const next: AnswerGroupAssignments = {};
+  Object.entries(assignments).forEach(([wording, head]) => {
+    next[wording] = oldHeads.has(head) ? headFor(wording) : head;
+  });
+  members.forEach(member => {
+    next[member] = headFor(member);
+  });
+  return next;
+}
+
+/**
+ * Merge one answer group into another, keeping the target's wording as the label
+ */
+export function mergeAnswerGroups(
+  assignments: AnswerGroupAssignments = {},
+  source: AnswerGroup,
+  target: AnswerGroup
+): AnswerGroupAssignments {
+  const head = target.members?.[0] ?? normalizeAnswer(target.text);
+  const members = [...(source.members ?? []), ...(target.members ?? [])];
+  return reassign(assignments, members, () => head);
+}
+
+/**
+ * Split an answer group so each of its wordings stands on its own
+ */
+export function splitAnswerGroup(assignments: AnswerGroupAssignments = {}, group: AnswerGroup): AnswerGroupAssignments {
+  return reassign(assignments, group.members ?? [], wording => wording);
+}
+
+/**
+ * Parse the synonym editor text: one line per term, "canonical: variant, variant"
+ */
+export function parseSynonyms(text: string): SynonymMap {
+  const synonyms: SynonymMap = {};
+  text.split('\n').forEach(line => {
+    const [canonical, variants = ''] = line.split(':');
+    const term = canonical.trim();
+    const list = variants.split(',').map(v => v.trim()).filter(Boolean);
+    if (term && list.length > 0) {
+      synonyms[term] = [...(synonyms[term] ?? []), ...list];
+    }
+  });
+  return synonyms;
+}
+
+/**
+ * Inverse of parseSynonyms, for editing
+ */
+export function formatSynonyms(synonyms: SynonymMap = {}): string {
+  return Object.entries(synonyms)
+    .map(([canonical, variants]) => `${canonical}: ${variants.join(', ')}`)
+    .join('\n');
+}
@@ -0,0 +1,304 @@
+/**
+ * Wire format for messages sent over Waku
+ *
+ * Every message is a DataPacket whose `body` oneof holds a dedicated protobuf
+ * message for its type. Field numbers must never be reused: add new message
+ * kinds as new oneof fields and leave retired numbers reserved.
+ *
+ * On the wire the DataPacket bytes are wrapped in an Envelope, which carries
+ * the admin signature for control messages, or the attendee's signature and
+ * public key for everything else. On encrypted channels the Envelope
+ * bytes are in turn sealed inside a SealedEnvelope.
+ */
+
+import protobuf from 'protobufjs';
+import { MessageType, type WakuMessage } from '@/types/waku';
+
+const QuestionOption = new protobuf.Type('QuestionOption')
+  .add(new protobuf.Field('id', 1, 'string'))
+  .add(new protobuf.Field('label', 2, 'string'));
+
+const QuestionScale = new protobuf.Type('QuestionScale')
+  .add(new protobuf.Field('min', 1, 'uint32'))
+  .add(new protobuf.Field('max', 2, 'uint32'));
+
+const ResultRow = new protobuf.Type('ResultRow')
+  .add(new protobuf.Field('id', 1, 'string'))
+  .add(new protobuf.Field('label', 2, 'string'))
+  .add(new protobuf.Field('count', 3, 'uint32'));
+
+const QuestionResults = new protobuf.Type('QuestionResults')
+  .add(new protobuf.Field('total', 1, 'uint32'))
+  .add(new protobuf.Field('rows', 2, 'ResultRow', 'repeated'));
+
+const Question = new protobuf.Type('Question')
+  .add(new protobuf.Field('id', 1, 'string'))
+  .add(new protobuf.Field('text', 2, 'string'))
+  .add(new protobuf.Field('active', 3, 'bool'))
+  .add(new protobuf.Field('createdAt', 4, 'uint64'))
+  .add(new protobuf.Field('allowAnswerChanges', 5, 'bool'))
+  .add(new protobuf.Field('kind', 6, 'string'))
+  .add(new protobuf.Field('options', 7, 'QuestionOption', 'repeated'))
+  .add(new protobuf.Field('scale', 8, 'QuestionScale'))
+  .add(new protobuf.Field('quiz', 9, 'bool'))
+  .add(new protobuf.Field('correctOptionIds', 10, 'string', 'repeated'))
+  .add(new protobuf.Field('revealedAt', 11, 'uint64'))
+  .add(new protobuf.Field('durationSeconds', 12, 'uint32'))
+  .add(new protobuf.Field('closesAt', 13, 'uint64'))
+  .add(new protobuf.Field('publishedResults', 14, 'QuestionResults'))
+  .add(new protobuf.Field('answerPolicy', 15, 'string'));
+
+const Answer = new protobuf.Type('Answer')
+  .add(new protobuf.Field('id', 1, 'string'))
+  .add(new protobuf.Field('questionId', 2, 'string'))
+  .add(new protobuf.Field('text', 3, 'string'))
+  .add(new protobuf.Field('senderId', 4, 'string'))
+  .add(new protobuf.Field('timestamp', 5, 'uint64'))
+  .add(new protobuf.Field('optionIds', 6, 'string', 'repeated'));
+
+const QuestionAdded = new protobuf.Type('QuestionAdded')
+  .add(new protobuf.Field('question', 1, 'Question'));
+
+const QuestionActivated = new protobuf.Type('QuestionActivated')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('closesAt', 2, 'uint64'));
+
+const QuestionDeactivated = new protobuf.Type('QuestionDeactivated')
+  .add(new protobuf.Field('questionId', 1, 'string'));
+
+const AnswerSubmitted = new protobuf.Type('AnswerSubmitted')
+  .add(new protobuf.Field('answer', 1, 'Answer'));
+
+const InstanceCreated = new protobuf.Type('InstanceCreated')
+  .add(new protobuf.Field('instanceId', 1, 'string'))
+  .add(new protobuf.Field('name', 2, 'string'));
+
+const StateRequest = new protobuf.Type('StateRequest');
+
+const AudienceQuestion = new protobuf.Type('AudienceQuestion')
+  .add(new protobuf.Field('id', 1, 'string'))
+  .add(new protobuf.Field('text', 2, 'string'))
+  .add(new protobuf.Field('senderId', 3, 'string'))
+  .add(new protobuf.Field('timestamp', 4, 'uint64'))
+  .add(new protobuf.Field('upvoterIds', 5, 'string', 'repeated'))
+  .add(new protobuf.Field('status', 6, 'string'));
+
+const LiveQuestionResults = new protobuf.Type('LiveQuestionResults')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('results', 2, 'QuestionResults'))
+  .add(new protobuf.Field('senderIds', 3, 'string', 'repeated'));
+
+const SessionSnapshot = new protobuf.Type('SessionSnapshot')
+  .add(new protobuf.Field('questions', 1, 'Question', 'repeated'))
+  .add(new protobuf.Field('audienceQuestions', 2, 'AudienceQuestion', 'repeated'))
+  .add(new protobuf.Field('liveResults', 3, 'LiveQuestionResults', 'repeated'))
+  .add(new protobuf.Field('attendeeIds', 4, 'string', 'repeated'));
+
+const QuestionEdited = new protobuf.Type('QuestionEdited')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('text', 2, 'string'))
+  .add(new protobuf.Field('options', 3, 'QuestionOption', 'repeated'))
+  .add(new protobuf.Field('scale', 4, 'QuestionScale'))
+  .add(new protobuf.Field('durationSeconds', 5, 'uint32'));
+
+const QuestionDeleted = new protobuf.Type('QuestionDeleted')
+  .add(new protobuf.Field('questionId', 1, 'string'));
+
+const QuestionsReordered = new protobuf.Type('QuestionsReordered')
+  .add(new protobuf.Field('questionIds', 1, 'string', 'repeated'));
+
+const AnswerUpdated = new protobuf.Type('AnswerUpdated')
+  .add(new protobuf.Field('answer', 1, 'Answer'));
+
+const AnswerRetracted = new protobuf.Type('AnswerRetracted')
+  .add(new protobuf.Field('questionId', 1, 'string'));
+
+const LeaderboardEntry = new protobuf.Type('LeaderboardEntry')
+  .add(new protobuf.Field('senderId', 1, 'string'))
+  .add(new protobuf.Field('points', 2, 'uint32'))
+  .add(new protobuf.Field('correct', 3, 'uint32'));
+
+const QuizRevealed = new protobuf.Type('QuizRevealed')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('correctOptionIds', 2, 'string', 'repeated'))
+  .add(new protobuf.Field('leaderboard', 3, 'LeaderboardEntry', 'repeated'));
+
+const AudienceQuestionPosted = new protobuf.Type('AudienceQuestionPosted')
+  .add(new protobuf.Field('audienceQuestion', 1, 'AudienceQuestion'));
+
+const AudienceQuestionUpvoted = new protobuf.Type('AudienceQuestionUpvoted')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('upvoted', 2, 'bool'));
+
+const AudienceQuestionModerated = new protobuf.Type('AudienceQuestionModerated')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('status', 2, 'string'));
+
+const ResultsPublished = new protobuf.Type('ResultsPublished')
+  .add(new protobuf.Field('questionId', 1, 'string'))
+  .add(new protobuf.Field('results', 2, 'QuestionResults'));
+
+/**
+ * Oneof field carrying the payload for each message type
+ */
+const BODY_FIELDS: Record<MessageType, string> = {
+  [MessageType.QUESTION_ADDED]: 'questionAdded',
+  [MessageType.QUESTION_ACTIVATED]: 'questionActivated',
+  [MessageType.QUESTION_DEACTIVATED]: 'questionDeactivated',
+  [MessageType.ANSWER_SUBMITTED]: 'answerSubmitted',
+  [MessageType.INSTANCE_CREATED]: 'instanceCreated',
+  [MessageType.STATE_REQUEST]: 'stateRequest',
+  [MessageType.SESSION_SNAPSHOT]: 'sessionSnapshot',
+  [MessageType.QUESTION_EDITED]: 'questionEdited',
+  [MessageType.QUESTION_DELETED]: 'questionDeleted',
+  [MessageType.QUESTIONS_REORDERED]: 'questionsReordered',
+  [MessageType.ANSWER_UPDATED]: 'answerUpdated',
+  [MessageType.ANSWER_RETRACTED]: 'answerRetracted',
+  [MessageType.QUIZ_REVEALED]: 'quizRevealed',
+  [MessageType.AUDIENCE_QUESTION_POSTED]: 'audienceQuestionPosted',
+  [MessageType.AUDIENCE_QUESTION_UPVOTED]: 'audienceQuestionUpvoted',
+  [MessageType.AUDIENCE_QUESTION_MODERATED]: 'audienceQuestionModerated',
+  [MessageType.RESULTS_PUBLISHED]: 'resultsPublished'
+};
+
+const DataPacket = new protobuf.Type('DataPacket')
+  .add(new protobuf.Field('timestamp', 2, 'uint64'))
+  .add(new protobuf.Field('senderId', 3, 'string'))
+  .add(new protobuf.Field('questionAdded', 10, 'QuestionAdded'))
+  .add(new protobuf.Field('questionActivated', 11, 'QuestionActivated'))
+  .add(new protobuf.Field('questionDeactivated', 12, 'QuestionDeactivated'))
+  .add(new protobuf.Field('answerSubmitted', 13, 'AnswerSubmitted'))
+  .add(new protobuf.Field('instanceCreated', 14, 'InstanceCreated'))
+  .add(new protobuf.Field('stateRequest', 15, 'StateRequest'))
+  .add(new protobuf.Field('sessionSnapshot', 16, 'SessionSnapshot'))
+  .add(new protobuf.Field('questionEdited', 17, 'QuestionEdited'))
+  .add(new protobuf.Field('questionDeleted', 18, 'QuestionDeleted'))
+  .add(new protobuf.Field('questionsReordered', 19, 'QuestionsReordered'))
+  .add(new protobuf.Field('answerUpdated', 20, 'AnswerUpdated'))
+  .add(new protobuf.Field('answerRetracted', 21, 'AnswerRetracted'))
+  .add(new protobuf.Field('quizRevealed', 22, 'QuizRevealed'))
+  .add(new protobuf.Field('audienceQuestionPosted', 23, 'AudienceQuestionPosted'))
+  .add(new protobuf.Field('audienceQuestionUpvoted', 24, 'AudienceQuestionUpvoted'))
+  .add(new protobuf.Field('audienceQuestionModerated', 25, 'AudienceQuestionModerated'))
+  .add(new protobuf.Field('resultsPublished', 26, 'ResultsPublished'))
+  .add(new protobuf.OneOf('body', Object.values(BODY_FIELDS)));
+
+// Fields 1 (type) and 4 (JSON payload) belonged to the original string-based packet
+DataPacket.reserved = [[1, 1], [4, 4]];
+
+const Envelope = new protobuf.Type('Envelope')
+  .add(new protobuf.Field('packet', 1, 'bytes'))
+  .add(new protobuf.Field('signature', 2, 'bytes'))
+  .add(new protobuf.Field('senderKey', 3, 'bytes'));
+
+const SealedEnvelope = new protobuf.Type('SealedEnvelope')
+  .add(new protobuf.Field('iv', 1, 'bytes'))
+  .add(new protobuf.Field('ciphertext', 2, 'bytes'));
+
+const namespace = new protobuf.Namespace('pulsecheck');
+[
+  QuestionOption, QuestionScale, ResultRow, QuestionResults, Question, Answer, AudienceQuestion,
+  QuestionAdded, QuestionActivated, QuestionDeactivated, AnswerSubmitted, InstanceCreated,
+  StateRequest, LiveQuestionResults, SessionSnapshot, QuestionEdited, QuestionDeleted, QuestionsReordered,
+  AnswerUpdated, AnswerRetracted, LeaderboardEntry, QuizRevealed,
+  AudienceQuestionPosted, AudienceQuestionUpvoted, AudienceQuestionModerated, ResultsPublished,
+  DataPacket, Envelope, SealedEnvelope
+].forEach(type => namespace.add(type));
+new protobuf.Root().add(namespace);
+
+/**
+ * Outer wrapper: the signature covers the exact packet bytes
+ */
+export interface PacketEnvelope {
+  packet: Uint8Array;
+  signature?: Uint8Array;
+  senderKey?: Uint8Array; // raw public key of the attendee who signed
+}
+
+/**
+ * Encrypted Envelope bytes (AES-GCM)
+ */
+export interface SealedPacket {
+  iv: Uint8Array;
+  ciphertext: Uint8Array;
+}
+
+const MESSAGE_TYPES = Object.fromEntries(
+  Object.entries(BODY_FIELDS).map(([type, field]) => [field, type])
+) as Record<string, MessageType>;
+
+/**
+ * Serialize a message into DataPacket bytes
+ */
+export function encodePacket(message: WakuMessage, senderId: string): Uint8Array {
+  const packet = DataPacket.fromObject({
+    timestamp: message.timestamp,
+    senderId,
+    [BODY_FIELDS[message.type]]: message.payload
+  });
+  return DataPacket.encode(packet).finish();
+}
+
+/**
+ * Deserialize DataPacket bytes into an untrusted message-shaped object
+ * The result still has to go through parseWakuMessage() before use
+ */
+export function decodePacket(bytes: Uint8Array): unknown {
+  const decoded = DataPacket.toObject(DataPacket.decode(bytes), {
+    longs: Number,
+    defaults: true,
+    oneofs: true
+  });
+
+  if (!decoded.body) {
+    throw new Error('DataPacket has no body');
+  }
+
+  return {
+    type: MESSAGE_TYPES[decoded.body],
+    timestamp: decoded.timestamp,
+    senderId: decoded.senderId,
+    payload: decoded[decoded.body]
+  };
+}
+
+/**
+ * Wrap packet bytes (and an optional signature and sender key) for sending
+ */
+export function encodeEnvelope(envelope: PacketEnvelope): Uint8Array {
+  return Envelope.encode(Envelope.create({ ...envelope })).finish();
+}
+
+/**
+ * Unwrap received bytes into packet bytes, signature and sender key
+ */
+export function decodeEnvelope(bytes: Uint8Array): PacketEnvelope {
+  const decoded = Envelope.decode(bytes) as unknown as {
+    packet: Uint8Array;
+    signature: Uint8Array;
+    senderKey: Uint8Array;
+  };
+  return {
+    packet: decoded.packet,
+    signature: decoded.signature?.length ? decoded.signature : undefined,
+    senderKey: decoded.senderKey?.length ? decoded.senderKey : undefined
+  };
+}
+
+/**
+ * Serialize an encrypted envelope for sending
+ */
+export function encodeSealed(sealed: SealedPacket): Uint8Array {
+  return SealedEnvelope.encode(SealedEnvelope.create({ ...sealed })).finish();
+}
+
+/**
+ * Deserialize an encrypted envelope
+ */
+export function decodeSealed(bytes: Uint8Array): SealedPacket {
+  const decoded = SealedEnvelope.decode(bytes) as unknown as SealedPacket;
+  if (!decoded.iv?.length || !decoded.ciphertext?.length) {
+    throw new Error('SealedEnvelope is missing iv or ciphertext');
+  }
+  return { iv: decoded.iv, ciphertext: decoded.ciphertext };
+}
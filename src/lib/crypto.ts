@@ -0,0 +1,145 @@
+/**
+ * WebCrypto helpers for signing and encrypting channel messages
+ *
+ * The admin holds an ECDSA P-256 keypair per instance. The public key is
+ * shared with attendees through the join link so they can verify that control
+ * messages (new questions, activations...) really come from the presenter.
+ *
+ * Each instance also has an AES-GCM channel key, shared the same way, which
+ * encrypts every message so only people holding the link can read or post.
+ *
+ * Attendees sign their own messages with a per-device keypair whose public key
+ * determines their sender ID, so nobody can post under someone else's ID.
+ */
+
+import type { AdminKeyPair, AttendeeIdentity } from '@/types/waku';
+
+const SIGNING_ALGORITHM = { name: 'ECDSA', namedCurve: 'P-256' } as const;
+const SIGNATURE_PARAMS = { name: 'ECDSA', hash: 'SHA-256' } as const;
+const ENCRYPTION_ALGORITHM = { name: 'AES-GCM', length: 256 } as const;
+const IV_LENGTH = 12;
+const SENDER_ID_HEX_LENGTH = 16;
+
+/**
+ * Encode bytes as unpadded base64url (safe for URLs and QR codes)
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url into bytes
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + (4 - base64.length % 4) % 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Generate a new admin signing keypair for an instance
+ */
+export async function generateAdminKeyPair(): Promise<AdminKeyPair> {
+  const keyPair = await crypto.subtle.generateKey(SIGNING_ALGORITHM, true, ['sign', 'verify']);
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  const privateKey = await crypto.subtle.exportKey('jwk', keyPair.privateKey);
+  return { publicKey: toBase64Url(publicKey), privateKey };
+}
+
+/**
+ * Generate a new attendee identity: a signing keypair and the sender ID it determines
+ */
+export async function generateAttendeeIdentity(): Promise<AttendeeIdentity> {
+  const { publicKey, privateKey } = await generateAdminKeyPair();
+  return { senderId: await senderIdForKey(publicKey), publicKey, privateKey };
+}
+
+/**
+ * Sender ID bound to a public key (base64url raw point): a prefix of its SHA-256 digest
+ */
+export async function senderIdForKey(publicKey: string): Promise<string> {
+  const digest = await digestHex(fromBase64Url(publicKey));
+  return `user-${digest.slice(0, SENDER_ID_HEX_LENGTH)}`;
+}
+
+/**
+ * Import the admin private key (JWK) for signing
+ */
+export function importSigningKey(privateKey: JsonWebKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey('jwk', privateKey, SIGNING_ALGORITHM, false, ['sign']);
+}
+
+/**
+ * Import the admin public key (base64url raw point) for verification
+ */
+export function importVerifyKey(publicKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64Url(publicKey), SIGNING_ALGORITHM, false, ['verify']);
+}
+
+/**
+ * Sign bytes with the admin private key
+ */
+export async function signBytes(key: CryptoKey, data: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.sign(SIGNATURE_PARAMS, key, data));
+}
+
+/**
+ * Verify a signature produced by signBytes()
+ */
+export function verifyBytes(key: CryptoKey, signature: Uint8Array, data: Uint8Array): Promise<boolean> {
+  return crypto.subtle.verify(SIGNATURE_PARAMS, key, signature, data);
+}
+
+/**
+ * Generate a new symmetric channel key (base64url raw AES-256 key)
+ */
+export async function generateChannelKey(): Promise<string> {
+  const key = await crypto.subtle.generateKey(ENCRYPTION_ALGORITHM, true, ['encrypt', 'decrypt']);
+  return toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', key)));
+}
+
+/**
+ * Import a channel key shared through the join link
+ */
+export function importChannelKey(channelKey: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', fromBase64Url(channelKey), ENCRYPTION_ALGORITHM, false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt bytes with a fresh random IV
+ * The additional data is authenticated but not encrypted (e.g. the instance ID)
+ */
+export async function encryptBytes(
+  key: CryptoKey,
+  data: Uint8Array,
+  additionalData: Uint8Array
+): Promise<{ iv: Uint8Array; ciphertext: Uint8Array }> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData }, key, data);
+  return { iv, ciphertext: new Uint8Array(ciphertext) };
+}
+
+/**
+ * Decrypt bytes produced by encryptBytes(); throws if the key or data don't match
+ */
+export async function decryptBytes(
+  key: CryptoKey,
+  iv: Uint8Array,
+  ciphertext: Uint8Array,
+  additionalData: Uint8Array
+): Promise<Uint8Array> {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv, additionalData }, key, ciphertext);
+  return new Uint8Array(plaintext);
+}
+
+/**
+ * SHA-256 digest of bytes as lowercase hex
+ */
+export async function digestHex(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+}
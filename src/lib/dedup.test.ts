@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DedupStore, contentMessageId } from '@/lib/dedup';
+import { MessageType, type WakuMessage } from '@/types/waku';
+
+const HOUR_MS = 60 * 60 * 1000;
+const STORAGE_KEY = 'waku_processed_test';
+
+// Digest-shaped ID, as stored IDs of any other shape are dropped on load
+const fakeId = (n: number) => n.toString(16).padStart(64, '0');
+
+/**
+ * localStorage stand-in that counts writes
+ */
+class MemoryStorage implements Storage {
+  private items = new Map<string, string>();
+  writes = 0;
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  clear(): void {
+    this.items.clear();
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  key(index: number): string | null {
+    return Array.from(this.items.keys())[index] ?? null;
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+
+  setItem(key: string, value: string): void {
+    this.writes++;
+    this.items.set(key, value);
+  }
+}
+
+function answerMessage(index: number, overrides: { text?: string; timestamp?: number; senderId?: string } = {}): WakuMessage {
+  const senderId = overrides.senderId ?? `user-${index % 50}`;
+  const timestamp = overrides.timestamp ?? 1_700_000_000_000;
+  return {
+    type: MessageType.ANSWER_SUBMITTED,
+    timestamp,
+    senderId,
+    payload: {
+      answer: {
+        id: `answer-${index}`,
+        questionId: 'question-1',
+        text: overrides.text ?? `answer ${index}`,
+        senderId,
+        timestamp
+      }
+    }
+  };
+}
+
+let storage: MemoryStorage;
+
+beforeEach(() => {
+  storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.useFakeTimers();
+  vi.setSystemTime(1_700_000_000_000);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('contentMessageId', () => {
+  it('gives thousands of messages sent in the same millisecond distinct IDs', async () => {
+    const ids = await Promise.all(Array.from({ length: 5000 }, (_, i) => contentMessageId(answerMessage(i))));
+
+    expect(new Set(ids).size).toBe(ids.length);
+    ids.forEach(id => expect(id).toMatch(/^[0-9a-f]{64}$/));
+  });
+
+  it('gives a re-received message the same ID', async () => {
+    const ids = await Promise.all(Array.from({ length: 1000 }, (_, i) => contentMessageId(answerMessage(i))));
+    const again = await Promise.all(Array.from({ length: 1000 }, (_, i) => contentMessageId(answerMessage(i))));
+
+    expect(again).toEqual(ids);
+  });
+
+  it('tells apart texts that collide under a 32-bit string hash', async () => {
+    // 'Aa' and 'BB' have the same Java-style hash, which old IDs were built from
+    const a = await contentMessageId(answerMessage(0, { text: 'Aa' }));
+    const b = await contentMessageId(answerMessage(0, { text: 'BB' }));
+
+    expect(a).not.toBe(b);
+  });
+
+  it('changes with every field of the message', async () => {
+    const base = await contentMessageId(answerMessage(0));
+    const variants = await Promise.all([
+      contentMessageId(answerMessage(0, { text: 'answer 0 ' })),
+      contentMessageId(answerMessage(0, { timestamp: 1_700_000_000_001 })),
+      contentMessageId(answerMessage(0, { senderId: 'user-x' })),
+      contentMessageId({ ...answerMessage(0), type: MessageType.ANSWER_UPDATED } as WakuMessage)
+    ]);
+
+    variants.forEach(id => expect(id).not.toBe(base));
+  });
+});
+
+describe('DedupStore', () => {
+  it('catches every duplicate among many messages and persists them in batches', async () => {
+    const store = new DedupStore(STORAGE_KEY);
+    const now = Date.now();
+    const messages = Array.from({ length: 5000 }, (_, i) => answerMessage(i, { timestamp: now - (i % 20) * HOUR_MS }));
+    const ids = await Promise.all(messages.map(contentMessageId));
+
+    ids.forEach((id, i) => store.add(id, messages[i].timestamp));
+    ids.forEach(id => expect(store.has(id)).toBe(true));
+    ids.forEach((id, i) => store.add(id, messages[i].timestamp));
+    expect(store.size).toBe(5000);
+
+    // Nothing is written until the batch is flushed, then one write per epoch
+    expect(storage.writes).toBe(0);
+    vi.advanceTimersByTime(500);
+    expect(storage.writes).toBe(20);
+
+    const reloaded = new DedupStore(STORAGE_KEY);
+    expect(reloaded.size).toBe(5000);
+    ids.forEach(id => expect(reloaded.has(id)).toBe(true));
+  });
+
+  it('only rewrites the epoch an ID is added to', async () => {
+    const store = new DedupStore(STORAGE_KEY);
+    Array.from({ length: 10 }, (_, hour) => store.add(fakeId(hour), Date.now() - hour * HOUR_MS));
+    store.flush();
+    storage.writes = 0;
+
+    store.add(fakeId(100), Date.now());
+    store.flush();
+
+    expect(storage.writes).toBe(1);
+  });
+
+  it('drops epochs older than the retention window and expires their messages', () => {
+    const [first, second] = [fakeId(1), fakeId(2)];
+    const start = Date.now();
+    const store = new DedupStore(STORAGE_KEY);
+    store.add(first, start);
+    store.flush();
+    expect(storage.length).toBe(1);
+
+    vi.setSystemTime(start + 12 * HOUR_MS);
+    store.add(second, Date.now());
+    store.flush();
+    expect(store.has(first)).toBe(true);
+    expect(store.isExpired(start)).toBe(false);
+
+    vi.setSystemTime(start + 25 * HOUR_MS);
+    store.flush();
+    expect(store.has(first)).toBe(false);
+    expect(store.has(second)).toBe(true);
+    expect(store.isExpired(start)).toBe(true);
+    expect(storage.length).toBe(1);
+
+    // A later page load doesn't bring the dropped epoch back
+    expect(new DedupStore(STORAGE_KEY).values()).toEqual([second]);
+  });
+
+  it('rejects replays of a message dated in the future', () => {
+    const start = Date.now();
+    const store = new DedupStore(STORAGE_KEY);
+
+    // Far ahead of any plausible clock skew: never accepted, so it can't be replayed later
+    const farFuture = start + 48 * HOUR_MS;
+    [0, 25, 47].forEach(hours => {
+      expect(store.isExpired(farFuture, start + hours * HOUR_MS)).toBe(true);
+    });
+
+    // Slightly ahead: accepted, and caught as a duplicate or expired at every later time
+    const skewed = fakeId(3);
+    const skewedTimestamp = start + 5 * 60 * 1000;
+    expect(store.isExpired(skewedTimestamp)).toBe(false);
+    store.add(skewed, skewedTimestamp);
+
+    [1, 23, 24.5, 25, 48].forEach(hours => {
+      vi.setSystemTime(start + hours * HOUR_MS);
+      store.flush();
+      expect(store.has(skewed) || store.isExpired(skewedTimestamp)).toBe(true);
+    });
+  });
+
+  it('drops IDs stored before message digests on load', async () => {
+    const digest = await contentMessageId(answerMessage(1));
+    const epoch = Math.floor(Date.now() / HOUR_MS);
+    storage.setItem(STORAGE_KEY, JSON.stringify(['-1a2b3c_1699999999000', '7f00ff_1699999999001']));
+    storage.setItem(`${STORAGE_KEY}:${epoch}`, JSON.stringify(['5e1f_1699999999002', digest]));
+    storage.setItem(`${STORAGE_KEY}:${epoch - 1}`, JSON.stringify(['4d2c_1699999999003']));
+
+    const store = new DedupStore(STORAGE_KEY);
+
+    expect(store.values()).toEqual([digest]);
+    expect(storage.getItem(STORAGE_KEY)).toBeNull();
+    expect(storage.getItem(`${STORAGE_KEY}:${epoch}`)).toBe(JSON.stringify([digest]));
+    expect(storage.getItem(`${STORAGE_KEY}:${epoch - 1}`)).toBeNull();
+  });
+});
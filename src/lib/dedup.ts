@@ -0,0 +1,190 @@
+/**
+ * Time-bounded store of processed message IDs
+ *
+ * IDs are grouped into epochs by message timestamp and each epoch is persisted
+ * under its own localStorage key, so recording an ID only rewrites its (small,
+ * recent) epoch and writes are batched. Epochs older than the retention window
+ * are dropped; messages that old are reported as expired so replays are still
+ * rejected after their IDs are gone. Messages dated further ahead than sender clocks
+ * plausibly drift are reported as expired too: their IDs would be dropped long
+ * before the message itself expires, and a replay then accepted again.
+ *
+ * Versions before message digests kept 32-bit hashes of the old JSON wire format
+ * as one array under the bare storage key. Messages in that format no longer
+ * decode, so they can never be processed twice: those IDs are dropped on load
+ * rather than migrated.
+ */
+
+import type { WakuMessage } from '@/types/waku';
+import { encodePacket } from '@/lib/codec';
+import { digestHex } from '@/lib/crypto';
+
+const EPOCH_MS = 60 * 60 * 1000;
+const RETENTION_MS = 24 * 60 * 60 * 1000;
+const FLUSH_DELAY_MS = 500;
+const MAX_CLOCK_SKEW_MS = 15 * 60 * 1000;
+
+/**
+ * Message IDs are SHA-256 digests in hex, anything else in storage is a legacy ID
+ */
+const DIGEST_ID_PATTERN = /^[0-9a-f]{64}$/;
+
+/**
+ * ID of a message: SHA-256 digest of its re-encoded (canonical) packet, so it
+ * stays the same across page reloads and different messages don't collide
+ */
+export function contentMessageId(message: WakuMessage): Promise<string> {
+  return digestHex(encodePacket(message, message.senderId));
+}
+
+export class DedupStore {
+  private epochs: Map<number, Set<string>> = new Map();
+  private dirty: Set<number> = new Set();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param storageKey - prefix of the per-epoch localStorage keys
+   */
+  constructor(private storageKey: string) {
+    this.load();
+  }
+
+  get size(): number {
+    let size = 0;
+    this.epochs.forEach(ids => {
+      size += ids.size;
+    });
+    return size;
+  }
+
+  has(id: string): boolean {
+    for (const ids of this.epochs.values()) {
+      if (ids.has(id)) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Whether a message with this timestamp is outside the window its ID is kept for:
+   * older than the retention window, or too far in the future to be clock skew
+   */
+  isExpired(timestamp: number, now: number = Date.now()): boolean {
+    return this.epochOf(timestamp) < this.oldestEpoch(now) || timestamp > now + MAX_CLOCK_SKEW_MS;
+  }
+
+  /**
+   * Record an ID under the epoch of its message timestamp
+   */
+  add(id: string, timestamp: number): void {
+    const epoch = this.epochOf(timestamp);
+    let ids = this.epochs.get(epoch);
+    if (!ids) {
+      ids = new Set();
+      this.epochs.set(epoch, ids);
+    }
+    if (ids.has(id)) return;
+
+    ids.add(id);
+    this.markDirty(epoch);
+  }
+
+  delete(id: string): void {
+    this.epochs.forEach((ids, epoch) => {
+      if (ids.delete(id)) {
+        this.markDirty(epoch);
+      }
+    });
+  }
+
+  values(): string[] {
+    return Array.from(this.epochs.values()).flatMap(ids => Array.from(ids));
+  }
+
+  /**
+   * Write pending changes now and drop expired epochs
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.prune();
+    this.dirty.forEach(epoch => {
+      const ids = this.epochs.get(epoch);
+      try {
+        if (ids?.size) {
+          localStorage.setItem(this.keyFor(epoch), JSON.stringify(Array.from(ids)));
+        } else {
+          localStorage.removeItem(this.keyFor(epoch));
+        }
+      } catch (error) {
+        console.warn('[Dedup] Failed to save processed IDs to storage:', error);
+      }
+    });
+    this.dirty.clear();
+  }
+
+  private load(): void {
+    const prefix = `${this.storageKey}:`;
+    try {
+      localStorage.removeItem(this.storageKey);
+
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key?.startsWith(prefix)) continue;
+
+        const epoch = Number(key.slice(prefix.length));
+        const stored = localStorage.getItem(key);
+        if (!Number.isInteger(epoch) || !stored) continue;
+
+        const ids: string[] = JSON.parse(stored);
+        const digests = ids.filter(id => DIGEST_ID_PATTERN.test(id));
+        this.epochs.set(epoch, new Set(digests));
+        if (digests.length < ids.length) {
+          this.dirty.add(epoch);
+        }
+      }
+    } catch (error) {
+      console.warn('[Dedup] Failed to load processed IDs from storage:', error);
+    }
+
+    this.prune();
+    if (this.dirty.size) {
+      this.flush();
+    }
+  }
+
+  private prune(): void {
+    const oldest = this.oldestEpoch();
+    this.epochs.forEach((_, epoch) => {
+      if (epoch < oldest) {
+        this.epochs.delete(epoch);
+        this.dirty.add(epoch);
+      }
+    });
+  }
+
+  private markDirty(epoch: number): void {
+    this.dirty.add(epoch);
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Slightly future timestamps (sender clock skew) keep their own epoch, so an ID is
+   * kept until its message expires
+   */
+  private epochOf(timestamp: number): number {
+    return Math.floor(timestamp / EPOCH_MS);
+  }
+
+  private oldestEpoch(now: number = Date.now()): number {
+    return Math.floor((now - RETENTION_MS) / EPOCH_MS);
+  }
+
+  private keyFor(epoch: number): string {
+    return `${this.storageKey}:${epoch}`;
+  }
+}
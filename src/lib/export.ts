@@ -0,0 +1,181 @@
+/**
+ * Session result exports (CSV, JSON, Markdown)
+ * 
+ * Built from what the admin's browser has stored for an instance, so an export
+ * works from the dashboard during a talk as well as from the instance list afterwards.
+ */
+
+import type { Answer, Instance, Question } from '@/types/waku';
+import { getAnswers, getInstance, getQuestions } from '@/lib/storage';
+import { countedAnswers } from '@/lib/answers';
+import { countOptionVotes, summarizeScale } from '@/lib/results';
+import { clusterAnswers } from '@/lib/clustering';
+import { isChoiceQuestion, isScaleQuestion } from '@/lib/questions';
+
+export type ExportFormat = 'csv' | 'json' | 'markdown';
+
+const EXTENSIONS: Record<ExportFormat, string> = { csv: 'csv', json: 'json', markdown: 'md' };
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  markdown: 'text/markdown'
+};
+
+export interface SessionData {
+  instance: Pick<Instance, 'id' | 'name' | 'createdAt'>;
+  questions: Question[];
+  answers: Answer[];
+}
+
+function csvCell(value: string | number): string {
+  // Answers are typed by attendees: keep spreadsheets from running them as formulas
+  const text = /^[=+\-@\t\r]/.test(String(value)) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per counted answer (the latest per sender where answers could change)
+ */
+export function toCsv({ questions, answers }: SessionData): string {
+  const header = ['question_id', 'question', 'kind', 'answer_id', 'sender_id', 'timestamp', 'answer', 'option_ids'];
+  const rows = questions.flatMap(question =>
+    countedAnswers(question, answers).map(answer => [
+      question.id,
+      question.text,
+      question.kind ?? 'text',
+      answer.id,
+      answer.senderId,
+      new Date(answer.timestamp).toISOString(),
+      answer.text,
+      (answer.optionIds ?? []).join(' ')
+    ])
+  );
+
+  return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Instance, questions and counted answers
+ */
+export function toJson({ instance, questions, answers }: SessionData): string {
+  return JSON.stringify({
+    instance,
+    exportedAt: new Date().toISOString(),
+    questions,
+    answers: questions.flatMap(question => countedAnswers(question, answers))
+  }, null, 2);
+}
+
+function markdownText(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/([\\`*_[\]|<>#])/g, '\\$1');
+}
+
+function questionSummary(question: Question, answers: Answer[]): string[] {
+  if (answers.length === 0) return ['_No answers._'];
+
+  if (isChoiceQuestion(question)) {
+    const correct = new Set(question.revealedAt ? question.correctOptionIds ?? [] : []);
+    return [
+      '| Option | Votes |',
+      '| --- | ---: |',
+      ...countOptionVotes(question, answers).map(vote =>
+        `| ${markdownText(vote.label)}${correct.has(vote.optionId) ? ' ✓' : ''} | ${vote.count} |`
+      )
+    ];
+  }
+
+  if (isScaleQuestion(question)) {
+    const summary = summarizeScale(question, answers);
+    const lines = [
+      `Mean **${summary.mean?.toFixed(1) ?? '-'}**, median **${summary.median ?? '-'}**`,
+      ''
+    ];
+    if (summary.nps) {
+      lines.push(
+        `NPS **${summary.nps.score}** (${summary.nps.promoters} promoters, ${summary.nps.passives} passives, ` +
+        `${summary.nps.detractors} detractors)`,
+        ''
+      );
+    }
+    return [
+      ...lines,
+      '| Rating | Count |',
+      '| ---: | ---: |',
+      ...summary.histogram.map(bucket => `| ${bucket.value} | ${bucket.count} |`)
+    ];
+  }
+
+  return [
+    '| Answer | Count |',
+    '| --- | ---: |',
+    ...clusterAnswers(answers, question.synonyms, question.groupAssignments).map(group =>
+      `| ${markdownText(group.text)} | ${group.count} |`
+    )
+  ];
+}
+
+/**
+ * Readable summary with grouped counts per question
+ */
+export function toMarkdown({ instance, questions, answers }: SessionData): string {
+  const lines = [
+    `# ${markdownText(instance.name || instance.id)}`,
+    '',
+    `Session \`${instance.id}\`, created ${new Date(instance.createdAt).toLocaleString()}`,
+    ''
+  ];
+
+  questions.forEach((question, index) => {
+    const questionAnswers = countedAnswers(question, answers);
+    lines.push(
+      `## ${index + 1}. ${markdownText(question.text)}`,
+      '',
+      `${questionAnswers.length} answer${questionAnswers.length !== 1 ? 's' : ''}`,
+      '',
+      ...questionSummary(question, questionAnswers),
+      ''
+    );
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Stored data of an instance, or null if it is unknown
+ */
+export function loadSessionData(instanceId: string): SessionData | null {
+  const instance = getInstance(instanceId);
+  if (!instance) return null;
+
+  return {
+    instance: { id: instance.id, name: instance.name, createdAt: instance.createdAt },
+    questions: getQuestions(instanceId),
+    answers: getAnswers(instanceId)
+  };
+}
+
+/**
+ * Let the browser save text content as a file
+ */
+export function downloadFile(filename: string, content: string | Blob, mimeType: string): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Export an instance's stored results and download them
+ * Returns false if the instance is unknown
+ */
+export function exportSession(instanceId: string, format: ExportFormat): boolean {
+  const data = loadSessionData(instanceId);
+  if (!data) return false;
+
+  const content = format === 'csv' ? toCsv(data) : format === 'json' ? toJson(data) : toMarkdown(data);
+  downloadFile(`${instanceId}-results.${EXTENSIONS[format]}`, content, MIME_TYPES[format]);
+  return true;
+}
@@ -0,0 +1,47 @@
+/**
+ * Attendee identity per instance and device
+ *
+ * The identity survives reloads, so answers and upvotes stay linked to one
+ * person, and its key signs the attendee's messages. Resetting it makes the
+ * device a new attendee on its next visit.
+ */
+
+import type { AttendeeIdentity } from '@/types/waku';
+import { generateAttendeeIdentity, senderIdForKey } from '@/lib/crypto';
+import { getIdentity, saveIdentity, deleteIdentity, deleteSubmittedAnswers } from '@/lib/storage';
+
+// Concurrent callers (e.g. effects running twice) must end up with the same identity
+const pending: Map<string, Promise<AttendeeIdentity>> = new Map();
+
+/**
+ * Load the stored identity for an instance, or create and store a new one
+ */
+export function getOrCreateIdentity(instanceId: string): Promise<AttendeeIdentity> {
+  let identity = pending.get(instanceId);
+  if (!identity) {
+    identity = loadOrCreate(instanceId).finally(() => pending.delete(instanceId));
+    pending.set(instanceId, identity);
+  }
+  return identity;
+}
+
+/**
+ * Forget the identity and what was answered with it
+ */
+export function resetIdentity(instanceId: string): void {
+  deleteIdentity(instanceId);
+  deleteSubmittedAnswers(instanceId);
+  console.log('[Identity] Identity reset for instance:', instanceId);
+}
+
+async function loadOrCreate(instanceId: string): Promise<AttendeeIdentity> {
+  const stored = getIdentity(instanceId);
+  if (stored?.publicKey && stored.privateKey && stored.senderId === await senderIdForKey(stored.publicKey)) {
+    return stored;
+  }
+
+  const identity = await generateAttendeeIdentity();
+  saveIdentity(instanceId, identity);
+  console.log('[Identity] Created identity for instance:', instanceId, identity.senderId);
+  return identity;
+}
@@ -0,0 +1,57 @@
+/**
+ * Join link helpers
+ *
+ * Credentials travel in the URL fragment (#...) so they are never sent to the
+ * web server hosting the app, only to the browser that opens the link.
+ */
+
+import type { JoinCredentials } from '@/types/waku';
+
+const FRAGMENT_KEYS = {
+  ADMIN_PUBLIC_KEY: 'admin',
+  CHANNEL_KEY: 'key'
+} as const;
+
+/**
+ * Build the fragment part (without '#') for a set of credentials
+ */
+export function buildJoinFragment(credentials: JoinCredentials): string {
+  const params = new URLSearchParams();
+  if (credentials.adminPublicKey) {
+    params.set(FRAGMENT_KEYS.ADMIN_PUBLIC_KEY, credentials.adminPublicKey);
+  }
+  if (credentials.channelKey) {
+    params.set(FRAGMENT_KEYS.CHANNEL_KEY, credentials.channelKey);
+  }
+  return params.toString();
+}
+
+/**
+ * Read credentials from a location hash (with or without the leading '#')
+ */
+export function parseJoinFragment(hash: string): JoinCredentials {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  return {
+    adminPublicKey: params.get(FRAGMENT_KEYS.ADMIN_PUBLIC_KEY) || undefined,
+    channelKey: params.get(FRAGMENT_KEYS.CHANNEL_KEY) || undefined
+  };
+}
+
+function buildUrl(path: string, credentials: JoinCredentials): string {
+  const fragment = buildJoinFragment(credentials);
+  return `${window.location.origin}${path}${fragment ? `#${fragment}` : ''}`;
+}
+
+/**
+ * Full attendee link for an instance, as shown in the admin view and QR code
+ */
+export function buildAttendeeUrl(instanceId: string, credentials: JoinCredentials): string {
+  return buildUrl(`/attendee/${instanceId}`, credentials);
+}
+
+/**
+ * Presenter view link; it carries the same credentials as the attendee link
+ */
+export function buildPresenterUrl(instanceId: string, credentials: JoinCredentials): string {
+  return buildUrl(`/present/${instanceId}`, credentials);
+}
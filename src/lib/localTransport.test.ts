@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACK_TIMEOUT_MS, LocalTransport } from '@/lib/localTransport';
+import type { TransportChannel, TransportEvent } from '@/lib/transport';
+
+let channels: TransportChannel[] = [];
+
+async function join(channelId: string, participantId: string): Promise<TransportChannel> {
+  const transport = new LocalTransport();
+  await transport.initialize();
+  const channel = await transport.createChannel(channelId, participantId);
+  channels.push(channel);
+  return channel;
+}
+
+/**
+ * Details of every event of a type on a channel, in order
+ */
+function record(channel: TransportChannel, type: TransportEvent): unknown[] {
+  const details: unknown[] = [];
+  channel.addEventListener(type, event => details.push(event.detail));
+  return details;
+}
+
+/**
+ * Resolves with the detail of the next event of a type on a channel
+ */
+function nextEvent(channel: TransportChannel, type: TransportEvent): Promise<unknown> {
+  return new Promise(resolve => {
+    const listener = (event: CustomEvent) => {
+      channel.removeEventListener(type, listener);
+      resolve(event.detail);
+    };
+    channel.addEventListener(type, listener);
+  });
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  channels.forEach(channel => channel.stop());
+  channels = [];
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('LocalTransport', () => {
+  it('reports healthy once initialized and refuses channels before that', async () => {
+    const transport = new LocalTransport();
+    const health: boolean[] = [];
+    transport.onHealthChange(isHealthy => health.push(isHealthy));
+
+    await expect(transport.createChannel('instance', 'alice')).rejects.toThrow('not initialized');
+    await transport.initialize();
+
+    expect(transport.isInitialized()).toBe(true);
+    expect(health).toEqual([false, true]);
+  });
+});
+
+describe.each([
+  ['BroadcastChannel', false],
+  ['in-memory bus', true]
+])('LocalChannel over the %s', (_, withoutBroadcastChannel) => {
+  beforeEach(() => {
+    if (withoutBroadcastChannel) {
+      vi.stubGlobal('BroadcastChannel', undefined);
+    }
+  });
+
+  it('delivers a payload to the other participant and acknowledges it to the sender', async () => {
+    const alice = await join('deliver', 'alice');
+    const bob = await join('deliver', 'bob');
+    const sending = record(alice, 'sending-message');
+    const sent = record(alice, 'message-sent');
+    const ownReceived = record(alice, 'message-received');
+
+    const received = nextEvent(bob, 'message-received');
+    const acknowledged = nextEvent(alice, 'message-acknowledged');
+    const messageId = alice.send(new Uint8Array([1, 2, 3]));
+
+    expect(await received).toEqual({ payload: new Uint8Array([1, 2, 3]) });
+    expect(await acknowledged).toBe(messageId);
+    expect(sending).toEqual([messageId]);
+    expect(sent).toEqual([messageId]);
+    expect(ownReceived).toEqual([]);
+  });
+
+  it('lets two participants on one bus talk both ways', async () => {
+    const alice = await join('both-ways', 'alice');
+    const bob = await join('both-ways', 'bob');
+    const aliceAcks = record(alice, 'message-acknowledged');
+    const bobAcks = record(bob, 'message-acknowledged');
+
+    const toBob = nextEvent(bob, 'message-received');
+    const fromAlice = alice.send(new Uint8Array([1]));
+    expect(await toBob).toEqual({ payload: new Uint8Array([1]) });
+
+    const toAlice = nextEvent(alice, 'message-received');
+    const fromBob = bob.send(new Uint8Array([2]));
+    expect(await toAlice).toEqual({ payload: new Uint8Array([2]) });
+
+    await vi.waitFor(() => {
+      expect(aliceAcks).toEqual([fromAlice]);
+      expect(bobAcks).toEqual([fromBob]);
+    });
+  });
+
+  it('keeps channels with different IDs apart', async () => {
+    const alice = await join('first', 'alice');
+    const bob = await join('second', 'bob');
+    const carol = await join('first', 'carol');
+    const bobReceived = record(bob, 'message-received');
+
+    const received = nextEvent(carol, 'message-received');
+    alice.send(new Uint8Array([1]));
+    await received;
+
+    expect(bobReceived).toEqual([]);
+  });
+
+  it('reports a failure when no participant acknowledges a message', async () => {
+    vi.useFakeTimers();
+    const alice = await join('alone', 'alice');
+    const acknowledged = record(alice, 'message-acknowledged');
+    const failed = record(alice, 'sending-message-irrecoverable-error');
+
+    const messageId = alice.send(new Uint8Array([1]));
+    await vi.advanceTimersByTimeAsync(ACK_TIMEOUT_MS - 1);
+    expect(failed).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(failed).toEqual([{ messageId, error: expect.any(Error) }]);
+    expect(acknowledged).toEqual([]);
+  });
+
+  it('stops sending and receiving once stopped', async () => {
+    const alice = await join('stopped', 'alice');
+    const bob = await join('stopped', 'bob');
+    const bobReceived = record(bob, 'message-received');
+    bob.stop();
+
+    const failed = record(alice, 'sending-message-irrecoverable-error');
+    const sent = nextEvent(alice, 'message-sent');
+    alice.send(new Uint8Array([1]));
+    await sent;
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(bobReceived).toEqual([]);
+    expect(() => bob.send(new Uint8Array([2]))).toThrow('stopped');
+
+    alice.stop();
+    expect(failed).toEqual([]);
+  });
+});
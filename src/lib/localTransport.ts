@@ -0,0 +1,176 @@
+/**
+ * Local transport for development and offline demos
+ *
+ * Tabs of the same origin on one machine exchange messages over a
+ * BroadcastChannel, without any network. Where BroadcastChannel is missing an
+ * in-memory bus connects the channels of the current page instead.
+ *
+ * Delivery events follow ReliableChannel: a message is acknowledged once
+ * another participant in the channel confirms it received it, and fails with
+ * 'sending-message-irrecoverable-error' when no one does within ACK_TIMEOUT_MS.
+ */
+
+import type { Transport, TransportChannel } from '@/lib/transport';
+
+type Frame =
+  | { kind: 'message'; messageId: string; participantId: string; payload: Uint8Array }
+  | { kind: 'ack'; messageId: string; participantId: string; to: string };
+
+const BUS_PREFIX = 'pulsecheck';
+export const ACK_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Fallback bus: every open channel per name, in this page
+ */
+const memoryBus: Map<string, Set<LocalChannel>> = new Map();
+
+class LocalChannel extends EventTarget implements TransportChannel {
+  private broadcast: BroadcastChannel | null = null;
+  private pending: Map<string, ReturnType<typeof setTimeout> | null> = new Map(); // ack timeout per message
+  private stopped = false;
+
+  constructor(private name: string, private participantId: string) {
+    super();
+
+    if (typeof BroadcastChannel !== 'undefined') {
+      this.broadcast = new BroadcastChannel(name);
+      this.broadcast.onmessage = (event: MessageEvent<Frame>) => this.receive(event.data);
+    } else {
+      let peers = memoryBus.get(name);
+      if (!peers) {
+        peers = new Set();
+        memoryBus.set(name, peers);
+      }
+      peers.add(this);
+    }
+  }
+
+  send(payload: Uint8Array): string {
+    if (this.stopped) {
+      throw new Error(`Channel ${this.name} is stopped`);
+    }
+
+    const messageId = `${this.participantId}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+    this.pending.set(messageId, null);
+
+    // Events fire after send() returns, so callers can register callbacks for the ID first
+    setTimeout(() => {
+      if (this.stopped) return;
+      this.emit('sending-message', messageId);
+      try {
+        this.post({ kind: 'message', messageId, participantId: this.participantId, payload });
+        this.emit('message-sent', messageId);
+      } catch (error) {
+        this.fail(messageId, error);
+        return;
+      }
+
+      if (this.pending.has(messageId)) {
+        this.pending.set(messageId, setTimeout(() => {
+          this.fail(messageId, new Error(`No participant acknowledged the message within ${ACK_TIMEOUT_MS / 1000}s`));
+        }, ACK_TIMEOUT_MS));
+      }
+    }, 0);
+
+    return messageId;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.pending.forEach(timer => {
+      if (timer) clearTimeout(timer);
+    });
+    this.pending.clear();
+    if (this.broadcast) {
+      this.broadcast.close();
+      this.broadcast = null;
+    } else {
+      const peers = memoryBus.get(this.name);
+      peers?.delete(this);
+      if (peers?.size === 0) {
+        memoryBus.delete(this.name);
+      }
+    }
+  }
+
+  private post(frame: Frame): void {
+    if (this.broadcast) {
+      this.broadcast.postMessage(frame);
+      return;
+    }
+
+    // Deliver asynchronously, like BroadcastChannel, and never back to the sender
+    memoryBus.get(this.name)?.forEach(peer => {
+      if (peer !== this) {
+        setTimeout(() => peer.receive(frame), 0);
+      }
+    });
+  }
+
+  private receive(frame: Frame): void {
+    if (this.stopped || !frame) return;
+
+    if (frame.kind === 'ack') {
+      if (frame.to === this.participantId && this.pending.has(frame.messageId)) {
+        const timer = this.pending.get(frame.messageId);
+        if (timer) clearTimeout(timer);
+        this.pending.delete(frame.messageId);
+        this.emit('message-acknowledged', frame.messageId);
+      }
+      return;
+    }
+
+    if (frame.kind === 'message' && frame.participantId !== this.participantId) {
+      this.emit('message-received', { payload: frame.payload });
+      this.post({ kind: 'ack', messageId: frame.messageId, participantId: this.participantId, to: frame.participantId });
+    }
+  }
+
+  private fail(messageId: string, error: unknown): void {
+    if (!this.pending.delete(messageId)) return;
+    this.emit('sending-message-irrecoverable-error', { messageId, error });
+  }
+
+  private emit(type: string, detail: unknown): void {
+    this.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
+
+export class LocalTransport implements Transport {
+  private initialized = false;
+  private healthListeners: Set<(isHealthy: boolean) => void> = new Set();
+
+  async initialize(): Promise<void> {
+    if (this.initialized) return;
+
+    this.initialized = true;
+    console.log('[LocalTransport] Ready, messages stay on this machine');
+    this.healthListeners.forEach(listener => listener(true));
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  async createChannel(channelId: string, participantId: string): Promise<TransportChannel> {
+    if (!this.initialized) {
+      throw new Error('Transport not initialized. Call initialize() first.');
+    }
+
+    return new LocalChannel(`${BUS_PREFIX}-${channelId}`, participantId);
+  }
+
+  onHealthChange(listener: (isHealthy: boolean) => void): () => void {
+    this.healthListeners.add(listener);
+    listener(this.initialized);
+    return () => this.healthListeners.delete(listener);
+  }
+
+  /**
+   * Channels are stopped by their owner (WakuService.leaveChannel)
+   */
+  async stop(): Promise<void> {
+    this.healthListeners.clear();
+    this.initialized = false;
+  }
+}
@@ -0,0 +1,255 @@
+/**
+ * Runtime validation for messages received over Waku
+ *
+ * Anything can arrive on a channel, so every decoded packet is checked against
+ * these schemas before it reaches the UI. Packets that don't match are dropped.
+ */
+
+import { z } from 'zod';
+import { MessageType, type WakuMessage } from '@/types/waku';
+
+const MAX_ID_LENGTH = 128;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_QUESTIONS = 500;
+const MAX_OPTIONS = 20;
+const MAX_SCALE_VALUE = 100;
+const MAX_LEADERBOARD_ENTRIES = 1000;
+const MAX_DURATION_SECONDS = 24 * 60 * 60;
+const MAX_AUDIENCE_QUESTIONS = 1000;
+const MAX_UPVOTERS = 10000;
+const MAX_RESULT_ROWS = 120;
+const MAX_ATTENDEES = 10000;
+
+const idSchema = z.string().min(1).max(MAX_ID_LENGTH);
+const textSchema = z.string().max(MAX_TEXT_LENGTH);
+const timestampSchema = z.number().int().nonnegative();
+
+// Protobuf decodes unset strings as '', which means "not set" for optional enums
+const optionalEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.preprocess(value => (value === '' ? undefined : value), z.enum(values).optional());
+
+// ...unset numbers as 0...
+const optionalTimestamp = z.preprocess(value => (value === 0 ? undefined : value), timestampSchema.optional());
+const optionalDuration = z.preprocess(
+  value => (value === 0 ? undefined : value),
+  z.number().int().positive().max(MAX_DURATION_SECONDS).optional()
+);
+
+// ...and unset nested messages as null
+const optionalMessage = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === null ? undefined : value), schema.optional());
+
+const questionOptionSchema = z.object({
+  id: idSchema,
+  label: textSchema.min(1)
+});
+
+const questionScaleSchema = z.object({
+  min: z.number().int().min(0).max(MAX_SCALE_VALUE),
+  max: z.number().int().min(0).max(MAX_SCALE_VALUE)
+}).refine(scale => scale.min < scale.max, { message: 'Scale min must be below max' });
+
+const questionResultsSchema = z.object({
+  total: z.number().int().nonnegative(),
+  rows: z.array(z.object({
+    id: z.string().max(MAX_ID_LENGTH),
+    label: textSchema,
+    count: z.number().int().nonnegative()
+  })).max(MAX_RESULT_ROWS)
+});
+
+const questionSchema = z.object({
+  id: idSchema,
+  text: textSchema.min(1),
+  active: z.boolean(),
+  createdAt: timestampSchema,
+  allowAnswerChanges: z.boolean().optional(),
+  kind: optionalEnum(['text', 'single', 'multi', 'scale', 'nps']),
+  options: z.array(questionOptionSchema).max(MAX_OPTIONS).optional(),
+  scale: optionalMessage(questionScaleSchema),
+  quiz: z.boolean().optional(),
+  correctOptionIds: z.array(idSchema).max(MAX_OPTIONS).optional(),
+  revealedAt: optionalTimestamp,
+  durationSeconds: optionalDuration,
+  closesAt: optionalTimestamp,
+  publishedResults: optionalMessage(questionResultsSchema),
+  answerPolicy: optionalEnum(['single', 'latest', 'unlimited'])
+});
+
+const answerSchema = z.object({
+  id: idSchema,
+  questionId: idSchema,
+  text: textSchema.min(1),
+  senderId: idSchema,
+  timestamp: timestampSchema,
+  optionIds: z.array(idSchema).max(MAX_OPTIONS).optional()
+});
+
+const audienceQuestionStatusSchema = z.enum(['open', 'pinned', 'answered', 'hidden']);
+
+const audienceQuestionSchema = z.object({
+  id: idSchema,
+  text: textSchema.min(1),
+  senderId: idSchema,
+  timestamp: timestampSchema,
+  upvoterIds: z.array(idSchema).max(MAX_UPVOTERS),
+  status: audienceQuestionStatusSchema
+});
+
+const leaderboardEntrySchema = z.object({
+  senderId: idSchema,
+  points: z.number().int().nonnegative(),
+  correct: z.number().int().nonnegative()
+});
+
+const baseSchema = {
+  timestamp: timestampSchema,
+  senderId: z.string().max(MAX_ID_LENGTH)
+};
+
+const wakuMessageSchema = z.discriminatedUnion('type', [
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUESTION_ADDED),
+    payload: z.object({ question: questionSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUESTION_ACTIVATED),
+    payload: z.object({ questionId: idSchema, closesAt: optionalTimestamp })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUESTION_DEACTIVATED),
+    payload: z.object({ questionId: idSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.ANSWER_SUBMITTED),
+    payload: z.object({ answer: answerSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.INSTANCE_CREATED),
+    payload: z.object({ instanceId: idSchema, name: textSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.STATE_REQUEST),
+    payload: z.object({})
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.SESSION_SNAPSHOT),
+    payload: z.object({
+      questions: z.array(questionSchema).max(MAX_QUESTIONS),
+      audienceQuestions: z.array(audienceQuestionSchema).max(MAX_AUDIENCE_QUESTIONS),
+      liveResults: z.array(z.object({
+        questionId: idSchema,
+        results: questionResultsSchema,
+        senderIds: z.array(idSchema).max(MAX_ATTENDEES)
+      })).max(MAX_QUESTIONS),
+      attendeeIds: z.array(idSchema).max(MAX_ATTENDEES)
+    })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUESTION_EDITED),
+    payload: z.object({
+      questionId: idSchema,
+      text: textSchema.min(1),
+      options: z.array(questionOptionSchema).max(MAX_OPTIONS).optional(),
+      scale: optionalMessage(questionScaleSchema),
+      durationSeconds: optionalDuration
+    })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUESTION_DELETED),
+    payload: z.object({ questionId: idSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUESTIONS_REORDERED),
+    payload: z.object({ questionIds: z.array(idSchema).max(MAX_QUESTIONS) })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.ANSWER_UPDATED),
+    payload: z.object({ answer: answerSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.ANSWER_RETRACTED),
+    payload: z.object({ questionId: idSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.QUIZ_REVEALED),
+    payload: z.object({
+      questionId: idSchema,
+      correctOptionIds: z.array(idSchema).min(1).max(MAX_OPTIONS),
+      leaderboard: z.array(leaderboardEntrySchema).max(MAX_LEADERBOARD_ENTRIES)
+    })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.AUDIENCE_QUESTION_POSTED),
+    payload: z.object({ audienceQuestion: audienceQuestionSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.AUDIENCE_QUESTION_UPVOTED),
+    payload: z.object({ questionId: idSchema, upvoted: z.boolean() })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.AUDIENCE_QUESTION_MODERATED),
+    payload: z.object({ questionId: idSchema, status: audienceQuestionStatusSchema })
+  }),
+  z.object({
+    ...baseSchema,
+    type: z.literal(MessageType.RESULTS_PUBLISHED),
+    payload: z.object({ questionId: idSchema, results: questionResultsSchema })
+  })
+]);
+
+export type MessageValidationResult =
+  | { message: WakuMessage }
+  | { error: string };
+
+/**
+ * Validate an untrusted value and narrow it to a WakuMessage
+ */
+export function parseWakuMessage(raw: unknown): MessageValidationResult {
+  const result = wakuMessageSchema.safeParse(raw);
+  if (!result.success) {
+    const error = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    return { error };
+  }
+
+  const message = result.data as WakuMessage;
+
+  // Answers must be attributed to the peer that sent them
+  if (
+    (message.type === MessageType.ANSWER_SUBMITTED || message.type === MessageType.ANSWER_UPDATED) &&
+    message.payload.answer.senderId !== message.senderId
+  ) {
+    return { error: 'payload.answer.senderId: does not match packet sender' };
+  }
+
+  // ...and so must audience questions, which start out open and without upvotes
+  if (message.type === MessageType.AUDIENCE_QUESTION_POSTED) {
+    const { audienceQuestion } = message.payload;
+    if (audienceQuestion.senderId !== message.senderId) {
+      return { error: 'payload.audienceQuestion.senderId: does not match packet sender' };
+    }
+    if (audienceQuestion.status !== 'open' || audienceQuestion.upvoterIds.length > 0) {
+      return { error: 'payload.audienceQuestion: new questions must be open and without upvotes' };
+    }
+  }
+
+  return { message };
+}
@@ -0,0 +1,85 @@
+/**
+ * Results the admin publishes to attendees
+ * 
+ * Only counts leave the admin's browser: votes per option, ratings per value, or
+ * the most common answer groups for free-text questions. The session snapshot
+ * carries the same aggregates for active questions, so a presenter screen that
+ * joins late can add the answers it sees live on top.
+ */
+
+import type { Answer, LiveQuestionResults, Question, QuestionResults } from '@/types/waku';
+import { countOptionVotes, summarizeScale } from '@/lib/results';
+import { clusterAnswers } from '@/lib/clustering';
+import { isChoiceQuestion, isScaleQuestion } from '@/lib/questions';
+
+const MAX_PUBLISHED_GROUPS = 10;
+
+/**
+ * Aggregate a question's counted answers for publishing
+ */
+export function buildQuestionResults(question: Question, answers: Answer[]): QuestionResults {
+  if (isChoiceQuestion(question)) {
+    return {
+      total: answers.length,
+      rows: countOptionVotes(question, answers).map(vote => ({ id: vote.optionId, label: vote.label, count: vote.count }))
+    };
+  }
+
+  if (isScaleQuestion(question)) {
+    return {
+      total: answers.length,
+      rows: summarizeScale(question, answers).histogram.map(bucket => ({
+        id: String(bucket.value),
+        label: String(bucket.value),
+        count: bucket.count
+      }))
+    };
+  }
+
+  return {
+    total: answers.length,
+    rows: clusterAnswers(answers, question.synonyms, question.groupAssignments)
+      .slice(0, MAX_PUBLISHED_GROUPS)
+      .map(group => ({ id: '', label: group.text, count: group.count }))
+  };
+}
+
+/**
+ * Results of an active question so far, with who is counted in them, for the session snapshot
+ */
+export function buildLiveResults(question: Question, answers: Answer[]): LiveQuestionResults {
+  return {
+    questionId: question.id,
+    results: buildQuestionResults(question, answers),
+    senderIds: [...new Set(answers.map(answer => answer.senderId))]
+  };
+}
+
+/**
+ * Add up two sets of results for the same question
+ * Rows match by option or rating, answer groups by label (most common first).
+ */
+export function mergeQuestionResults(question: Question, base: QuestionResults, extra: QuestionResults): QuestionResults {
+  const rows = base.rows.map(row => ({ ...row }));
+  extra.rows.forEach(row => {
+    const match = rows.find(r => row.id ? r.id === row.id : !r.id && r.label === row.label);
+    if (match) {
+      match.count += row.count;
+    } else {
+      rows.push({ ...row });
+    }
+  });
+
+  const grouped = !isChoiceQuestion(question) && !isScaleQuestion(question);
+  return {
+    total: base.total + extra.total,
+    rows: grouped ? rows.sort((a, b) => b.count - a.count) : rows
+  };
+}
+
+/**
+ * Individual ratings behind published scale results, for mean/median/NPS
+ */
+export function publishedRatings(results: QuestionResults): number[] {
+  return results.rows.flatMap(row => Array<number>(row.count).fill(Number(row.id)));
+}
@@ -0,0 +1,102 @@
+/**
+ * Question list helpers shared by the admin and attendee views
+ */
+
+import type { Question, QuestionEdit, QuestionScale } from '@/types/waku';
+
+/**
+ * Order questions to match a list of IDs
+ * Questions missing from the list keep their relative order after the listed ones
+ */
+export function reorderQuestions(questions: Question[], questionIds: string[]): Question[] {
+  const position = new Map(questionIds.map((id, index) => [id, index]));
+  return [...questions].sort((a, b) =>
+    (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+  );
+}
+
+/**
+ * Move one question before another (used for drag-and-drop), returning the new ID order
+ */
+export function moveQuestion(questions: Question[], questionId: string, targetId: string): string[] {
+  const ids = questions.map(q => q.id);
+  const from = ids.indexOf(questionId);
+  const to = ids.indexOf(targetId);
+  if (from === -1 || to === -1 || from === to) return ids;
+
+  ids.splice(from, 1);
+  ids.splice(to, 0, questionId);
+  return ids;
+}
+
+/**
+ * Apply an admin's corrections to a question
+ * Options are relabelled by ID and never added or removed, so answers and correct
+ * answers keep pointing at them.
+ */
+export function applyQuestionEdit(question: Question, edit: QuestionEdit): Question {
+  const labels = new Map(edit.options?.map(option => [option.id, option.label]));
+  return {
+    ...question,
+    text: edit.text,
+    options: question.options?.map(option => ({ ...option, label: labels.get(option.id) ?? option.label })),
+    scale: question.kind === 'scale' && edit.scale ? edit.scale : question.scale,
+    durationSeconds: edit.durationSeconds
+  };
+}
+
+/**
+ * Whether a question is answered by picking from its options
+ */
+export function isChoiceQuestion(question: Question): boolean {
+  return question.kind === 'single' || question.kind === 'multi';
+}
+
+/**
+ * Whether a question is answered with a rating (scale or NPS)
+ */
+export function isScaleQuestion(question: Question): boolean {
+  return question.kind === 'scale' || question.kind === 'nps';
+}
+
+const DEFAULT_SCALE: QuestionScale = { min: 1, max: 5 };
+const NPS_SCALE: QuestionScale = { min: 0, max: 10 };
+
+/**
+ * Rating range of a scale or NPS question
+ */
+export function scaleRange(question: Question): QuestionScale {
+  if (question.kind === 'nps') return NPS_SCALE;
+  return question.scale ?? DEFAULT_SCALE;
+}
+
+// Allowance for delivery delay between an attendee sending an answer and the admin receiving it
+const CLOSE_GRACE_MS = 2000;
+
+/**
+ * Mark a question live; timed questions get their closing time
+ */
+export function activateQuestion(question: Question, now: number): Question {
+  return {
+    ...question,
+    active: true,
+    activatedAt: now,
+    deactivatedAt: undefined,
+    closesAt: question.durationSeconds ? now + question.durationSeconds * 1000 : undefined
+  };
+}
+
+/**
+ * Take a question off the air, remembering when for the answer timeline
+ */
+export function deactivateQuestion(question: Question, now: number): Question {
+  return { ...question, active: false, deactivatedAt: now };
+}
+
+/**
+ * Whether something received at the given time (admin clock) came after a timed question closed
+ * Pass the receipt time: a sender's own timestamp could be backdated past the close.
+ */
+export function isAfterClose(question: Question, timestamp: number): boolean {
+  return !!question.closesAt && timestamp > question.closesAt + CLOSE_GRACE_MS;
+}
@@ -0,0 +1,90 @@
+/**
+ * Quiz scoring
+ *
+ * A quiz question is a choice question with a correct answer. The admin keeps the
+ * correct options to itself until the reveal, then scores every attendee's answer:
+ * a correct answer earns more points the sooner it arrived after activation.
+ */
+
+import type { Answer, LeaderboardEntry, Question } from '@/types/waku';
+import { countedAnswers } from '@/lib/answers';
+import { isChoiceQuestion } from '@/lib/questions';
+
+const MAX_POINTS = 1000;
+const MIN_POINTS = 500;
+const POINTS_DECAY_MS = 30_000; // correct answers drop from MAX_POINTS to MIN_POINTS over this time (or the time limit)
+
+export function isQuizQuestion(question: Question): boolean {
+  return !!question.quiz && isChoiceQuestion(question);
+}
+
+/**
+ * Question as attendees may see it: the correct options stay hidden until the reveal
+ */
+export function publicQuestion(question: Question): Question {
+  const { correctOptionIds, activatedAt, deactivatedAt, synonyms, groupAssignments, rejectedAnswers, ...rest } = question;
+  return question.revealedAt ? { ...rest, correctOptionIds } : rest;
+}
+
+/**
+ * Whether the selected options are exactly the correct ones
+ */
+export function isCorrectAnswer(question: Question, optionIds: string[] = []): boolean {
+  const correct = new Set(question.correctOptionIds ?? []);
+  const selected = new Set(optionIds);
+  return correct.size > 0 && selected.size === correct.size && [...selected].every(id => correct.has(id));
+}
+
+/**
+ * Points for one answer; wrong answers and answers sent after the reveal earn nothing
+ * Timing uses the admin's receipt time: the answer's own timestamp is the sender's
+ * clock and could claim an instant answer. Answers stored before receipt times were
+ * recorded fall back to it.
+ */
+export function scoreAnswer(question: Question, answer: Answer): number {
+  const answeredAt = answer.receivedAt ?? answer.timestamp;
+  if (!isCorrectAnswer(question, answer.optionIds)) return 0;
+  if (question.revealedAt && answeredAt > question.revealedAt) return 0;
+  if (!question.activatedAt) return MAX_POINTS;
+
+  const decayMs = question.durationSeconds ? question.durationSeconds * 1000 : POINTS_DECAY_MS;
+  const elapsed = Math.max(0, answeredAt - question.activatedAt);
+  const decay = Math.min(1, elapsed / decayMs);
+  return Math.round(MAX_POINTS - (MAX_POINTS - MIN_POINTS) * decay);
+}
+
+/**
+ * Total points per attendee over all revealed quiz questions, best first
+ */
+export function buildLeaderboard(questions: Question[], answers: Answer[]): LeaderboardEntry[] {
+  const entries = new Map<string, LeaderboardEntry>();
+
+  questions
+    .filter(question => isQuizQuestion(question) && question.revealedAt)
+    .forEach(question => {
+      // Without answer changes a sender could still submit twice; only their first answer counts
+      const seen = new Set<string>();
+      const scored = countedAnswers(question, answers).filter(answer =>
+        !seen.has(answer.senderId) && seen.add(answer.senderId)
+      );
+
+      scored.forEach(answer => {
+        const entry = entries.get(answer.senderId) ?? { senderId: answer.senderId, points: 0, correct: 0 };
+        const points = scoreAnswer(question, answer);
+        entry.points += points;
+        if (points > 0) entry.correct += 1;
+        entries.set(answer.senderId, entry);
+      });
+    });
+
+  return [...entries.values()].sort((a, b) => b.points - a.points || b.correct - a.correct);
+}
+
+/**
+ * 1-based rank of an attendee on the leaderboard (ties share a rank), or null if absent
+ */
+export function leaderboardRank(leaderboard: LeaderboardEntry[], senderId: string): number | null {
+  const entry = leaderboard.find(e => e.senderId === senderId);
+  if (!entry) return null;
+  return leaderboard.filter(e => e.points > entry.points).length + 1;
+}
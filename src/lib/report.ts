@@ -0,0 +1,190 @@
+/**
+ * PDF report of a whole instance, generated in the browser
+ * 
+ * A cover page followed by one landscape page per question with its bar chart,
+ * drawn directly with jsPDF so no chart has to be on screen.
+ *
+ * Text uses jsPDF's built-in Helvetica, which only covers Latin (Windows-1252)
+ * characters; other scripts come out garbled. No Unicode font is embedded, as one
+ * covering every script would add megabytes to the app, so exports warn instead.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { Answer, Question } from '@/types/waku';
+import { countedAnswers } from '@/lib/answers';
+import { countOptionVotes, summarizeScale } from '@/lib/results';
+import { clusterAnswers } from '@/lib/clustering';
+import { isChoiceQuestion, isScaleQuestion } from '@/lib/questions';
+import { loadSessionData, type SessionData } from '@/lib/export';
+
+const PAGE_MARGIN = 48;
+const MAX_BARS = 12;
+const BAR_COLOR: [number, number, number] = [103, 80, 220]; // hsl(250, 70%, 58%)
+const CORRECT_COLOR: [number, number, number] = [22, 163, 74];
+const TEXT_COLOR: [number, number, number] = [17, 24, 39];
+const MUTED_COLOR: [number, number, number] = [107, 114, 128];
+
+// Characters outside Windows-1252, which the built-in fonts can't draw
+const UNSUPPORTED_TEXT = /[^\t\n\r\u0020-\u007e\u00a0-\u00ff\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201a\u201c-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]/;
+
+interface ChartRow {
+  label: string;
+  count: number;
+  highlight?: boolean; // correct quiz option
+}
+
+interface QuestionChart {
+  rows: ChartRow[];
+  notes: string[]; // statistics shown above the chart
+}
+
+function questionChart(question: Question, answers: Answer[]): QuestionChart {
+  if (isChoiceQuestion(question)) {
+    const correct = new Set(question.revealedAt ? question.correctOptionIds ?? [] : []);
+    return {
+      rows: countOptionVotes(question, answers).map(vote => ({
+        label: vote.label,
+        count: vote.count,
+        highlight: correct.has(vote.optionId)
+      })),
+      notes: correct.size > 0 ? ['Correct answer highlighted in green'] : []
+    };
+  }
+
+  if (isScaleQuestion(question)) {
+    const summary = summarizeScale(question, answers);
+    const notes = [`Mean ${summary.mean?.toFixed(1) ?? '-'} • Median ${summary.median ?? '-'}`];
+    if (summary.nps) {
+      notes.push(
+        `NPS ${summary.nps.score} (${summary.nps.promoters} promoters, ` +
+        `${summary.nps.passives} passives, ${summary.nps.detractors} detractors)`
+      );
+    }
+    return {
+      rows: summary.histogram.map(bucket => ({ label: String(bucket.value), count: bucket.count })),
+      notes
+    };
+  }
+
+  const groups = clusterAnswers(answers, question.synonyms, question.groupAssignments);
+  return {
+    rows: groups.slice(0, MAX_BARS).map(group => ({ label: group.text, count: group.count })),
+    notes: groups.length > MAX_BARS ? [`Top ${MAX_BARS} of ${groups.length} answer groups`] : []
+  };
+}
+
+function drawBarChart(doc: jsPDF, rows: ChartRow[], top: number) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const labelWidth = 200;
+  const barLeft = PAGE_MARGIN + labelWidth + 12;
+  const barMaxWidth = pageWidth - barLeft - PAGE_MARGIN - 40;
+  const rowHeight = Math.min(32, (pageHeight - top - PAGE_MARGIN) / Math.max(rows.length, 1));
+  const maxCount = Math.max(1, ...rows.map(row => row.count));
+
+  doc.setFontSize(Math.min(12, rowHeight * 0.5));
+  rows.forEach((row, index) => {
+    const y = top + index * rowHeight;
+    const label = doc.splitTextToSize(row.label, labelWidth)[0] as string;
+
+    doc.setTextColor(...TEXT_COLOR);
+    doc.text(label, PAGE_MARGIN + labelWidth, y + rowHeight / 2, { align: 'right', baseline: 'middle' });
+
+    const barWidth = (row.count / maxCount) * barMaxWidth;
+    if (barWidth > 0) {
+      doc.setFillColor(...(row.highlight ? CORRECT_COLOR : BAR_COLOR));
+      doc.rect(barLeft, y + rowHeight * 0.15, barWidth, rowHeight * 0.7, 'F');
+    }
+    doc.text(String(row.count), barLeft + barWidth + 6, y + rowHeight / 2, { baseline: 'middle' });
+  });
+}
+
+function drawCoverPage(doc: jsPDF, { instance, questions, answers }: SessionData) {
+  doc.setTextColor(...TEXT_COLOR);
+  doc.setFontSize(28);
+  doc.text(instance.name || instance.id, PAGE_MARGIN, PAGE_MARGIN + 40);
+
+  doc.setFontSize(12);
+  doc.setTextColor(...MUTED_COLOR);
+  doc.text(
+    `Session ${instance.id} • created ${new Date(instance.createdAt).toLocaleString()}`,
+    PAGE_MARGIN,
+    PAGE_MARGIN + 68
+  );
+
+  doc.setTextColor(...TEXT_COLOR);
+  const pageHeight = doc.internal.pageSize.getHeight();
+  let y = PAGE_MARGIN + 110;
+  questions.forEach((question, index) => {
+    if (y > pageHeight - PAGE_MARGIN) {
+      doc.addPage();
+      y = PAGE_MARGIN + 20;
+    }
+    const count = countedAnswers(question, answers).length;
+    const line = doc.splitTextToSize(`${index + 1}. ${question.text}`, 520)[0] as string;
+    doc.text(`${line} (${count} answer${count !== 1 ? 's' : ''})`, PAGE_MARGIN, y);
+    y += 20;
+  });
+}
+
+function drawQuestionPage(doc: jsPDF, question: Question, index: number, answers: Answer[]) {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const questionAnswers = countedAnswers(question, answers);
+  const { rows, notes } = questionChart(question, questionAnswers);
+
+  doc.setTextColor(...TEXT_COLOR);
+  doc.setFontSize(22);
+  const titleLines = (doc.splitTextToSize(`${index + 1}. ${question.text}`, pageWidth - PAGE_MARGIN * 2) as string[])
+    .slice(0, 2);
+  doc.text(titleLines, PAGE_MARGIN, PAGE_MARGIN + 20);
+
+  let top = PAGE_MARGIN + 20 + titleLines.length * 26;
+  doc.setFontSize(12);
+  doc.setTextColor(...MUTED_COLOR);
+  [`${questionAnswers.length} answer${questionAnswers.length !== 1 ? 's' : ''}`, ...notes].forEach(note => {
+    doc.text(note, PAGE_MARGIN, top);
+    top += 18;
+  });
+
+  if (questionAnswers.length === 0) return;
+  drawBarChart(doc, rows, top + 12);
+}
+
+/**
+ * Cover page plus one page per question
+ */
+export function buildPdfReport(data: SessionData): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'pt', format: 'a4' });
+
+  drawCoverPage(doc, data);
+  data.questions.forEach((question, index) => {
+    doc.addPage();
+    drawQuestionPage(doc, question, index, data.answers);
+  });
+
+  return doc;
+}
+
+/**
+ * Whether any text in the report is in a script the PDF can't render
+ */
+export function hasUnsupportedPdfText({ instance, questions, answers }: SessionData): boolean {
+  const texts = [
+    instance.name,
+    ...questions.flatMap(q => [q.text, ...(q.options ?? []).map(option => option.label)]),
+    ...answers.map(a => a.text)
+  ];
+  return texts.some(text => UNSUPPORTED_TEXT.test(text ?? ''));
+}
+
+/**
+ * Build the report of an instance's stored results and download it
+ * Returns null if the instance is unknown
+ */
+export function exportPdfReport(instanceId: string): { unsupportedText: boolean } | null {
+  const data = loadSessionData(instanceId);
+  if (!data) return null;
+
+  buildPdfReport(data).save(`${instanceId}-report.pdf`);
+  return { unsupportedText: hasUnsupportedPdfText(data) };
+}
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { answerTimeline } from '@/lib/results';
+import type { Answer, Question } from '@/types/waku';
+
+const NOW = 1_700_000_000_000;
+
+const question: Question = {
+  id: 'question-1',
+  text: 'How was it?',
+  active: false,
+  createdAt: NOW - 600_000,
+  activatedAt: NOW - 300_000,
+  deactivatedAt: NOW - 240_000
+};
+
+function answer(index: number, timestamp: number, receivedAt?: number): Answer {
+  return {
+    id: `answer-${index}`,
+    questionId: question.id,
+    text: `answer ${index}`,
+    senderId: `user-${index}`,
+    timestamp,
+    receivedAt
+  };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('answerTimeline', () => {
+  it('places answers by the admin receipt time, not the sender clock', () => {
+    // The sender's clock is ten minutes behind the admin's
+    const received = question.activatedAt! + 30_000;
+    const timeline = answerTimeline(question, [answer(0, received - 600_000, received)]);
+
+    expect(timeline.before).toBe(0);
+    expect(timeline.intervalSeconds).toBe(2);
+    expect(timeline.points[15].count).toBe(1);
+    expect(timeline.points[timeline.points.length - 1].cumulative).toBe(1);
+  });
+
+  it('keeps the chart bounded when an answer is dated far in the future', () => {
+    const farFuture = 10_000_000_000_000; // year 2286
+    const answers = [answer(0, question.activatedAt! + 10_000), answer(1, farFuture)];
+
+    const closed = answerTimeline(question, answers);
+    expect(closed.points.length).toBeLessThanOrEqual(41);
+    expect(closed.points[closed.points.length - 1].cumulative).toBe(2);
+
+    const open = answerTimeline({ ...question, active: true }, [answer(0, Number.MAX_SAFE_INTEGER)]);
+    expect(open.points.length).toBeLessThanOrEqual(41);
+    expect(open.points[open.points.length - 1].count).toBe(1);
+  });
+
+  it('keeps the chart bounded for a question without an activation time', () => {
+    const { activatedAt: _activatedAt, ...unactivated } = question;
+    const timeline = answerTimeline(unactivated, [answer(0, 0), answer(1, NOW)]);
+
+    expect(timeline.origin).toBe('first-answer');
+    expect(timeline.points.length).toBeLessThanOrEqual(41);
+    expect(timeline.points[timeline.points.length - 1].cumulative).toBe(2);
+  });
+});
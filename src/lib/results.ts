@@ -0,0 +1,246 @@
+/**
+ * Result aggregation helpers for the results views
+ */
+
+import type { Answer, Question } from '@/types/waku';
+import { scaleRange } from '@/lib/questions';
+import { STOPWORDS } from '@/lib/stopwords';
+
+export interface AnswerGroup {
+  text: string; // first answer seen in the group, as typed
+  count: number;
+  firstTimestamp: number;
+  variants?: string[]; // other wordings merged into the group by fuzzy clustering
+  members?: string[]; // normalized wordings in the group, most frequent first
+}
+
+/**
+ * Normalize answer text for grouping
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/[.,!?;:'"]+/g, '') // Remove punctuation
+    .replace(/\s+/g, ' '); // Replace multiple spaces with single space
+}
+
+/**
+ * Group free-text answers that only differ in case, punctuation or spacing, most frequent first
+ */
+export function groupAnswersByText(answers: Answer[]): AnswerGroup[] {
+  const frequency = new Map<string, AnswerGroup>();
+
+  answers.forEach(answer => {
+    const normalized = normalizeAnswer(answer.text);
+    const existing = frequency.get(normalized);
+
+    if (existing) {
+      existing.count += 1;
+    } else {
+      frequency.set(normalized, {
+        text: answer.text, // Keep original for display
+        count: 1,
+        firstTimestamp: answer.timestamp
+      });
+    }
+  });
+
+  return Array.from(frequency.values())
+    .sort((a, b) => b.count - a.count);
+}
+
+export interface OptionVoteCount {
+  optionId: string;
+  label: string;
+  count: number;
+}
+
+/**
+ * Count votes per option of a choice question, in option order
+ * Options nobody picked are included with a count of zero
+ */
+export function countOptionVotes(question: Question, answers: Answer[]): OptionVoteCount[] {
+  const counts = new Map((question.options ?? []).map(option => [option.id, 0]));
+  answers.forEach(answer => {
+    // A sender's answer counts at most once per option, and only once in total for single choice
+    const optionIds = [...new Set(answer.optionIds ?? [])];
+    (question.kind === 'single' ? optionIds.slice(0, 1) : optionIds).forEach(optionId => {
+      const count = counts.get(optionId);
+      if (count !== undefined) counts.set(optionId, count + 1);
+    });
+  });
+
+  return (question.options ?? []).map(option => ({
+    optionId: option.id,
+    label: option.label,
+    count: counts.get(option.id) ?? 0
+  }));
+}
+
+export interface ScaleSummary {
+  histogram: { value: number; count: number }[];
+  count: number;
+  mean: number | null;
+  median: number | null;
+  nps: NpsBreakdown | null; // only for NPS questions
+}
+
+export interface NpsBreakdown {
+  promoters: number; // 9-10
+  passives: number; // 7-8
+  detractors: number; // 0-6
+  score: number; // % promoters minus % detractors, -100 to 100
+}
+
+/**
+ * Ratings given to a scale or NPS question; answers outside the range are dropped
+ */
+export function scaleValues(question: Question, answers: Answer[]): number[] {
+  const { min, max } = scaleRange(question);
+  return answers
+    .map(answer => Number(answer.text))
+    .filter(value => Number.isInteger(value) && value >= min && value <= max);
+}
+
+/**
+ * Histogram (every value in the range, including zero counts), mean, median and,
+ * for NPS questions, the promoter/detractor breakdown
+ */
+export function summarizeScale(question: Question, answers: Answer[]): ScaleSummary {
+  return summarizeRatings(question, scaleValues(question, answers));
+}
+
+/**
+ * Same as summarizeScale, from ratings already extracted (and within the range)
+ */
+export function summarizeRatings(question: Question, values: number[]): ScaleSummary {
+  const { min, max } = scaleRange(question);
+
+  const histogram = Array.from({ length: max - min + 1 }, (_, index) => ({ value: min + index, count: 0 }));
+  values.forEach(value => histogram[value - min].count++);
+
+  return {
+    histogram,
+    count: values.length,
+    mean: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null,
+    median: median(values),
+    nps: question.kind === 'nps' ? npsBreakdown(values) : null
+  };
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function npsBreakdown(values: number[]): NpsBreakdown {
+  const promoters = values.filter(value => value >= 9).length;
+  const detractors = values.filter(value => value <= 6).length;
+  const passives = values.length - promoters - detractors;
+  const score = values.length > 0 ? Math.round(((promoters - detractors) / values.length) * 100) : 0;
+  return { promoters, passives, detractors, score };
+}
+
+export interface WordCount {
+  word: string;
+  count: number; // number of answers using the word
+}
+
+// Letters and digits of any script, with inner apostrophes and hyphens ("don't", "real-time")
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+const MIN_WORD_LENGTH = 2;
+
+/**
+ * Distinct words of an answer, lowercased, without stopwords and very short words
+ */
+export function answerWords(text: string): string[] {
+  const words = text.normalize('NFC').toLocaleLowerCase().match(WORD_PATTERN) ?? [];
+  return [...new Set(words)].filter(word =>
+    word.length >= MIN_WORD_LENGTH && !STOPWORDS.has(word.replace(/['’]/g, ''))
+  );
+}
+
+/**
+ * Count in how many answers each word appears, most frequent first
+ */
+export function countWords(answers: Answer[], limit: number): WordCount[] {
+  const counts = new Map<string, number>();
+  answers.forEach(answer => {
+    answerWords(answer.text).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, limit);
+}
+
+/**
+ * Answers that use a word (as counted by countWords)
+ */
+export function answersWithWord(answers: Answer[], word: string): Answer[] {
+  return answers.filter(answer => answerWords(answer.text).includes(word));
+}
+
+export interface TimelinePoint {
+  seconds: number; // start of the interval, relative to activation
+  count: number; // answers arriving in the interval
+  cumulative: number; // answers up to the end of the interval
+}
+
+export interface AnswerTimeline {
+  points: TimelinePoint[];
+  intervalSeconds: number;
+  origin: 'activation' | 'first-answer'; // what second 0 is
+  before: number; // answers from before activation (an earlier round)
+}
+
+const TIMELINE_INTERVALS = [1, 2, 5, 10, 15, 30, 60, 120, 300, 600];
+const MAX_TIMELINE_POINTS = 40;
+
+/**
+ * When answers arrived, relative to the question's last activation
+ * Answers are placed by the admin's receipt time where known, as the activation time is
+ * on the admin's clock too; the sender's timestamp is only a fallback for older answers.
+ * Runs until the question closed (or the last answer, but no later than now), in
+ * intervals sized to fit the chart
+ */
+export function answerTimeline(question: Question, answers: Answer[]): AnswerTimeline {
+  const timestamps = answers.map(answer => answer.receivedAt ?? answer.timestamp).sort((a, b) => a - b);
+  const origin = question.activatedAt ?? timestamps[0] ?? 0;
+  const after = timestamps.filter(timestamp => timestamp >= origin);
+
+  // A sender's clock can be far ahead; nothing arrives after now, so later answers fall in the last interval
+  const end = Math.max(
+    question.active ? Date.now() : question.deactivatedAt ?? 0,
+    Math.min(after[after.length - 1] ?? origin, Date.now())
+  );
+  const spanSeconds = Math.max(1, Math.ceil((end - origin) / 1000));
+  const intervalSeconds = TIMELINE_INTERVALS.find(interval => spanSeconds / interval <= MAX_TIMELINE_POINTS)
+    ?? Math.ceil(spanSeconds / MAX_TIMELINE_POINTS);
+
+  const points = Array.from({ length: Math.floor(spanSeconds / intervalSeconds) + 1 }, (_, index) => ({
+    seconds: index * intervalSeconds,
+    count: 0,
+    cumulative: 0
+  }));
+  after.forEach(timestamp => {
+    const index = Math.min(points.length - 1, Math.floor((timestamp - origin) / 1000 / intervalSeconds));
+    points[index].count++;
+  });
+  let total = 0;
+  points.forEach(point => {
+    total += point.count;
+    point.cumulative = total;
+  });
+
+  return {
+    points,
+    intervalSeconds,
+    origin: question.activatedAt ? 'activation' : 'first-answer',
+    before: timestamps.length - after.length
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Common words left out of word clouds
+ * 
+ * Answers come in whatever language the audience speaks, so the lists cover the
+ * languages we see most at events. Words are lowercase; accents are kept.
+ */
+
+const STOPWORDS_BY_LANGUAGE: Record<string, string[]> = {
+  en: [
+    'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'because',
+    'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'get', 'had', 'has', 'have',
+    'he', 'her', 'him', 'his', 'how', 'i', 'if', 'im', 'in', 'into', 'is', 'it', 'its', 'just', 'like',
+    'me', 'more', 'most', 'my', 'no', 'not', 'of', 'on', 'one', 'only', 'or', 'other', 'our', 'out',
+    'really', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these',
+    'they', 'this', 'to', 'too', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where',
+    'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+    // contractions, matched without the apostrophe
+    'cant', 'didnt', 'doesnt', 'dont', 'isnt', 'ive', 'wont', 'youre'
+  ],
+  de: [
+    'aber', 'alle', 'als', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bin', 'bis', 'da', 'das', 'dass',
+    'dem', 'den', 'der', 'des', 'die', 'doch', 'du', 'ein', 'eine', 'einem', 'einen', 'einer', 'es',
+    'für', 'hat', 'ich', 'ihr', 'im', 'in', 'ist', 'ja', 'kann', 'man', 'mehr', 'mit', 'nach', 'nicht',
+    'noch', 'nur', 'oder', 'sehr', 'sich', 'sie', 'sind', 'so', 'und', 'uns', 'von', 'vor', 'war', 'was',
+    'wie', 'wir', 'wird', 'zu', 'zum', 'zur'
+  ],
+  fr: [
+    'au', 'aux', 'avec', 'ce', 'ces', 'cest', 'dans', 'de', 'des', 'du', 'elle', 'en', 'est', 'et', 'il',
+    'ils', 'je', 'la', 'le', 'les', 'leur', 'mais', 'me', 'mes', 'mon', 'ne', 'nous', 'on', 'ou', 'par',
+    'pas', 'plus', 'pour', 'qu', 'que', 'qui', 'sa', 'se', 'ses', 'son', 'sont', 'sur', 'très', 'tu',
+    'un', 'une', 'vous'
+  ],
+  es: [
+    'al', 'como', 'con', 'de', 'del', 'el', 'ella', 'en', 'es', 'esta', 'este', 'fue', 'ha', 'la', 'las',
+    'le', 'lo', 'los', 'más', 'me', 'mi', 'muy', 'no', 'nos', 'o', 'para', 'pero', 'por', 'que', 'se',
+    'si', 'sin', 'son', 'su', 'sus', 'también', 'te', 'tu', 'un', 'una', 'y', 'ya', 'yo'
+  ],
+  it: [
+    'al', 'alla', 'anche', 'che', 'chi', 'con', 'da', 'del', 'della', 'di', 'e', 'gli', 'ha', 'il', 'in',
+    'io', 'la', 'le', 'lo', 'ma', 'mi', 'molto', 'non', 'per', 'più', 'si', 'sono', 'su', 'tu', 'un',
+    'una', 'uno'
+  ],
+  pt: [
+    'ao', 'as', 'com', 'como', 'da', 'das', 'de', 'do', 'dos', 'e', 'ela', 'ele', 'em', 'era', 'eu', 'foi',
+    'isso', 'mais', 'mas', 'muito', 'na', 'não', 'no', 'nos', 'o', 'os', 'ou', 'para', 'por', 'que', 'se',
+    'sem', 'seu', 'sua', 'também', 'um', 'uma', 'você'
+  ],
+  nl: [
+    'aan', 'al', 'als', 'bij', 'dat', 'de', 'den', 'der', 'die', 'dit', 'een', 'en', 'er', 'het', 'hij',
+    'ik', 'in', 'is', 'je', 'maar', 'met', 'niet', 'nog', 'of', 'om', 'ook', 'op', 'te', 'tot', 'uit',
+    'van', 'voor', 'was', 'wat', 'we', 'wij', 'zijn', 'ze', 'zo'
+  ]
+};
+
+export const STOPWORDS: ReadonlySet<string> = new Set(Object.values(STOPWORDS_BY_LANGUAGE).flat());
@@ -4,12 +4,24 @@
  * This allows admins to prepare questions ahead of time and return to sessions
  */
 
-import type { Question, Answer, Instance } from '@/types/waku';
+import type {
+  Question,
+  Answer,
+  AudienceQuestion,
+  Instance,
+  JoinCredentials,
+  AttendeeIdentity,
+  SubmittedAnswers
+} from '@/types/waku';
 
 const STORAGE_KEYS = {
   INSTANCES: 'audience-qa-instances',
   QUESTIONS: 'audience-qa-questions',
-  ANSWERS: 'audience-qa-answers'
+  ANSWERS: 'audience-qa-answers',
+  CREDENTIALS: 'audience-qa-credentials',
+  AUDIENCE_QUESTIONS: 'audience-qa-audience-questions',
+  IDENTITY: 'audience-qa-identity',
+  SUBMITTED: 'audience-qa-submitted'
 } as const;
 
 /**
@@ -65,6 +77,10 @@ export function deleteInstance(instanceId: string): void {
     // Also delete questions and answers for this instance
     deleteQuestions(instanceId);
     deleteAnswers(instanceId);
+    deleteAudienceQuestions(instanceId);
+    deleteJoinCredentials(instanceId);
+    deleteIdentity(instanceId);
+    deleteSubmittedAnswers(instanceId);
     
     console.log('[Storage] Instance deleted:', instanceId);
   } catch (error) {
@@ -144,6 +160,147 @@ export function deleteAnswers(instanceId: string): void {
   }
 }
 
+/**
+ * Get the questions attendees asked the speaker in an instance
+ */
+export function getAudienceQuestions(instanceId: string): AudienceQuestion[] {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.AUDIENCE_QUESTIONS}-${instanceId}`);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.error('[Storage] Error loading audience questions:', error);
+    return [];
+  }
+}
+
+/**
+ * Save audience questions for an instance
+ */
+export function saveAudienceQuestions(instanceId: string, questions: AudienceQuestion[]): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEYS.AUDIENCE_QUESTIONS}-${instanceId}`, JSON.stringify(questions));
+    console.log('[Storage] Audience questions saved for instance:', instanceId, questions.length);
+  } catch (error) {
+    console.error('[Storage] Error saving audience questions:', error);
+  }
+}
+
+/**
+ * Delete audience questions for an instance
+ */
+export function deleteAudienceQuestions(instanceId: string): void {
+  try {
+    localStorage.removeItem(`${STORAGE_KEYS.AUDIENCE_QUESTIONS}-${instanceId}`);
+  } catch (error) {
+    console.error('[Storage] Error deleting audience questions:', error);
+  }
+}
+
+/**
+ * Get the join credentials an attendee received for an instance
+ */
+export function getJoinCredentials(instanceId: string): JoinCredentials {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.CREDENTIALS}-${instanceId}`);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('[Storage] Error loading join credentials:', error);
+    return {};
+  }
+}
+
+/**
+ * Remember join credentials so the instance can be rejoined without the link
+ */
+export function saveJoinCredentials(instanceId: string, credentials: JoinCredentials): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEYS.CREDENTIALS}-${instanceId}`, JSON.stringify(credentials));
+  } catch (error) {
+    console.error('[Storage] Error saving join credentials:', error);
+  }
+}
+
+/**
+ * Delete join credentials for an instance
+ */
+export function deleteJoinCredentials(instanceId: string): void {
+  try {
+    localStorage.removeItem(`${STORAGE_KEYS.CREDENTIALS}-${instanceId}`);
+  } catch (error) {
+    console.error('[Storage] Error deleting join credentials:', error);
+  }
+}
+
+/**
+ * Get this device's attendee identity for an instance
+ */
+export function getIdentity(instanceId: string): AttendeeIdentity | null {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.IDENTITY}-${instanceId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('[Storage] Error loading identity:', error);
+    return null;
+  }
+}
+
+/**
+ * Save this device's attendee identity for an instance
+ */
+export function saveIdentity(instanceId: string, identity: AttendeeIdentity): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEYS.IDENTITY}-${instanceId}`, JSON.stringify(identity));
+  } catch (error) {
+    console.error('[Storage] Error saving identity:', error);
+  }
+}
+
+/**
+ * Delete the attendee identity for an instance (a new one is created on the next visit)
+ */
+export function deleteIdentity(instanceId: string): void {
+  try {
+    localStorage.removeItem(`${STORAGE_KEYS.IDENTITY}-${instanceId}`);
+  } catch (error) {
+    console.error('[Storage] Error deleting identity:', error);
+  }
+}
+
+/**
+ * Get the answers this device's attendee submitted in an instance
+ */
+export function getSubmittedAnswers(instanceId: string): SubmittedAnswers | null {
+  try {
+    const stored = localStorage.getItem(`${STORAGE_KEYS.SUBMITTED}-${instanceId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch (error) {
+    console.error('[Storage] Error loading submitted answers:', error);
+    return null;
+  }
+}
+
+/**
+ * Save the answers this device's attendee submitted in an instance
+ */
+export function saveSubmittedAnswers(instanceId: string, submitted: SubmittedAnswers): void {
+  try {
+    localStorage.setItem(`${STORAGE_KEYS.SUBMITTED}-${instanceId}`, JSON.stringify(submitted));
+  } catch (error) {
+    console.error('[Storage] Error saving submitted answers:', error);
+  }
+}
+
+/**
+ * Delete the submitted answers for an instance
+ */
+export function deleteSubmittedAnswers(instanceId: string): void {
+  try {
+    localStorage.removeItem(`${STORAGE_KEYS.SUBMITTED}-${instanceId}`);
+  } catch (error) {
+    console.error('[Storage] Error deleting submitted answers:', error);
+  }
+}
+
 /**
  * Clear all data (useful for testing)
  */
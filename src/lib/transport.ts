@@ -0,0 +1,77 @@
+/**
+ * Transport abstraction behind WakuService
+ *
+ * A transport moves opaque bytes between the participants of a channel.
+ * Everything above it (encoding, signing, encryption, deduplication) lives in
+ * WakuService, so the same app runs over the Waku network or, for local
+ * development and demos, between browser tabs on one machine.
+ *
+ * Channels mirror the ReliableChannel event API, so a ReliableChannel is a
+ * TransportChannel as-is and other transports emit the same events and details.
+ */
+
+import { WakuTransport } from '@/lib/wakuTransport';
+import { LocalTransport } from '@/lib/localTransport';
+
+/**
+ * Channel events, named and shaped like ReliableChannel's:
+ * - 'message-received': detail is { payload: Uint8Array }
+ * - 'sending-message', 'message-sent', 'message-acknowledged': detail is the message ID
+ * - 'message-possibly-acknowledged': detail is { messageId, possibleAckCount }
+ * - 'sending-message-irrecoverable-error': detail is { messageId, error }
+ * - 'irretrievable-message': detail describes the missing message
+ */
+export type TransportEvent =
+  | 'message-received'
+  | 'sending-message'
+  | 'message-sent'
+  | 'message-possibly-acknowledged'
+  | 'message-acknowledged'
+  | 'sending-message-irrecoverable-error'
+  | 'irretrievable-message';
+
+/**
+ * A joined channel: send payloads and listen for delivery and incoming messages
+ */
+export interface TransportChannel {
+  /** Queue a payload for sending and return its message ID for delivery tracking */
+  send(payload: Uint8Array): string;
+  addEventListener(type: TransportEvent, listener: (event: CustomEvent) => void): void;
+  removeEventListener(type: TransportEvent, listener: (event: CustomEvent) => void): void;
+  /** Stop sending and receiving on this channel */
+  stop(): void;
+}
+
+export interface Transport {
+  /** Connect to the network (idempotent) */
+  initialize(): Promise<void>;
+  isInitialized(): boolean;
+  /** Join a channel as the given participant (unique per tab, see WakuService) */
+  createChannel(channelId: string, participantId: string): Promise<TransportChannel>;
+  /** Subscribe to health changes, the listener is called with the current status right away */
+  onHealthChange(listener: (isHealthy: boolean) => void): () => void;
+  stop(): Promise<void>;
+}
+
+export type TransportKind = 'waku' | 'local';
+
+export const DEFAULT_TRANSPORT: TransportKind = 'waku';
+
+/**
+ * Transport selected by the VITE_TRANSPORT build setting ('waku' or 'local')
+ */
+export function getTransportKind(): TransportKind {
+  const configured = import.meta.env.VITE_TRANSPORT?.trim().toLowerCase();
+  if (configured === 'waku' || configured === 'local') {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`[Transport] Unknown transport "${configured}", using ${DEFAULT_TRANSPORT}`);
+  }
+  return DEFAULT_TRANSPORT;
+}
+
+export function createTransport(kind: TransportKind = getTransportKind()): Transport {
+  console.log('[Transport] Using transport:', kind);
+  return kind === 'local' ? new LocalTransport() : new WakuTransport();
+}
@@ -5,16 +5,38 @@
  * Follow the TODOs in order and refer to WORKSHOP_GUIDE.md for detailed instructions.
  * 
  * Architecture:
- * - Single Waku node initialized once per app
- * - Single content topic: /audience-qa/1/data/proto
- * - Multiple ReliableChannels managed in a Map (key: instanceId)
+ * - Single transport initialized once per app (Waku network or local, see transport.ts)
+ * - Multiple channels managed in a Map (key: instanceId)
  * - Each instance (Q&A session) has its own channel
+ * - Messages are encrypted with the instance's channel key (see configureChannel)
  */
 
-import { createLightNode, ReliableChannel, HealthStatus } from '@waku/sdk';
-import protobuf from 'protobufjs';
-import type { WakuMessage } from '@/types/waku';
-import { MessageType } from '@/types/waku';
+import { createTransport, type Transport, type TransportChannel } from '@/lib/transport';
+import type { WakuMessage, AttendeeIdentity } from '@/types/waku';
+import { MessageType, CONTROL_MESSAGE_TYPES } from '@/types/waku';
+import { parseWakuMessage } from '@/lib/messages';
+import { DedupStore, contentMessageId } from '@/lib/dedup';
+import {
+  encodePacket,
+  decodePacket,
+  encodeEnvelope,
+  decodeEnvelope,
+  encodeSealed,
+  decodeSealed,
+  type PacketEnvelope
+} from '@/lib/codec';
+import {
+  importSigningKey,
+  importVerifyKey,
+  importChannelKey,
+  signBytes,
+  verifyBytes,
+  encryptBytes,
+  decryptBytes,
+  senderIdForKey,
+  toBase64Url,
+  fromBase64Url
+} from '@/lib/crypto';
 
 /**
  * Message delivery callbacks
@@ -39,31 +61,42 @@ export interface SDSEvent {
 }
 
 /**
- * Message structure using Protobuf
- * Defines how messages are serialized for transmission over Waku
+ * Keys for a channel: admin keys sign (admin) and verify (everyone) control
+ * messages, the channel key encrypts every message on the channel and the
+ * attendee identity signs this client's other messages
  */
-const DataPacket = new protobuf.Type('DataPacket')
-  .add(new protobuf.Field('type', 1, 'string'))
-  .add(new protobuf.Field('timestamp', 2, 'uint64'))
-  .add(new protobuf.Field('senderId', 3, 'string'))
-  .add(new protobuf.Field('payload', 4, 'string'));
+export interface ChannelSecurity {
+  adminPublicKey?: string;
+  adminPrivateKey?: JsonWebKey;
+  channelKey?: string;
+  identity?: AttendeeIdentity;
+}
+
+interface ChannelKeys {
+  verifyKey?: CryptoKey;
+  signingKey?: CryptoKey;
+  encryptionKey?: CryptoKey;
+  identity?: { senderId: string; publicKey: Uint8Array; signingKey: CryptoKey };
+}
+
+const textEncoder = new TextEncoder();
 
 /**
- * WakuService handles all Waku node operations and message passing
- * Singleton pattern ensures one node manages multiple channels
+ * WakuService handles all message passing on top of the selected transport
+ * Singleton pattern ensures one transport manages multiple channels
  */
 export class WakuService {
-  private node: any = null;
-  private channels: Map<string, any> = new Map(); // instanceId -> ReliableChannel
-  private encoder: any = null;
-  private decoder: any = null;
+  private transport: Transport = createTransport();
+  private unsubscribeHealth: (() => void) | null = null;
+  private channels: Map<string, TransportChannel> = new Map(); // instanceId -> channel
   private isHealthy: boolean = false;
   private healthListeners: Set<(isHealthy: boolean) => void> = new Set();
   private channelListeners: Map<string, Set<(message: WakuMessage) => void>> = new Map();
-  private processedMessageIds: Map<string, Set<string>> = new Map();
+  private processedMessageIds: Map<string, DedupStore> = new Map();
   private messageCallbacks: Map<string, Map<string, MessageCallbacks>> = new Map();
-  private readonly MAX_PROCESSED_IDS = 1000; // Prevent memory leak
   private sdsEventListeners: Set<(event: SDSEvent) => void> = new Set();
+  private channelKeys: Map<string, Promise<ChannelKeys>> = new Map();
+  private tabId = Math.random().toString(36).substring(2, 10); // this page's suffix for channel participant IDs
   private static instance: WakuService | null = null;
 
   private constructor() {}
@@ -79,33 +112,27 @@ export class WakuService {
   }
 
   /**
-   * PART 1: Initialize Waku node and connect to the network
+   * PART 1: Initialize the transport and connect to the network
    * 
    * This method sets up the foundation for all P2P communication.
    * It only needs to be called once for the entire app.
+   * The Waku node itself is set up in wakuTransport.ts (TODO 1.1-1.4).
    */
   async initialize(): Promise<void> {
-    if (this.node) {
-      console.log('[Waku] Node already initialized');
+    if (this.transport.isInitialized()) {
+      console.log('[Waku] Transport already initialized');
       return;
     }
 
-    console.log('[Waku] Initializing light node...');
-    
-    // TODO 1.1: Create a Waku light node with default bootstrap
-    // This creates a browser-optimized node that automatically discovers peers
-    
-    // TODO 1.2: Define the content topic for message routing
-    // Format: /app-name/version/type/encoding
-    
-    // TODO 1.3: Create encoder and decoder for the content topic
-    // These are used to serialize/deserialize messages
-    
-    // TODO 1.4: Set up health status listener
-    // Listen to 'waku:health' events and update this.isHealthy
-    // Notify healthListeners when status changes
-    
-    console.log('[Waku] Light node initialized successfully');
+    if (!this.unsubscribeHealth) {
+      this.unsubscribeHealth = this.transport.onHealthChange(isHealthy => {
+        if (this.isHealthy === isHealthy) return;
+        this.isHealthy = isHealthy;
+        this.healthListeners.forEach(listener => listener(isHealthy));
+      });
+    }
+
+    await this.transport.initialize();
   }
 
   /**
@@ -123,14 +150,56 @@ export class WakuService {
     return () => this.sdsEventListeners.delete(listener);
   }
 
+  /**
+   * Set the keys used to sign, verify and encrypt messages for a channel
+   * Without an admin public key every control message is rejected, and with a
+   * channel key every unencrypted message is rejected
+   */
+  configureChannel(instanceId: string, security: ChannelSecurity): void {
+    const keys = (async (): Promise<ChannelKeys> => ({
+      verifyKey: security.adminPublicKey ? await importVerifyKey(security.adminPublicKey) : undefined,
+      signingKey: security.adminPrivateKey ? await importSigningKey(security.adminPrivateKey) : undefined,
+      encryptionKey: security.channelKey ? await importChannelKey(security.channelKey) : undefined,
+      identity: security.identity ? {
+        senderId: security.identity.senderId,
+        publicKey: fromBase64Url(security.identity.publicKey),
+        signingKey: await importSigningKey(security.identity.privateKey)
+      } : undefined
+    }))();
+
+    keys.catch(error => {
+      console.error('[Waku] Failed to import channel keys:', error);
+      this.emitSDSEvent({
+        type: 'error',
+        event: 'channel-key-error',
+        timestamp: Date.now(),
+        details: { error },
+        instanceId
+      });
+    });
+
+    this.channelKeys.set(instanceId, keys);
+  }
+
+  /**
+   * Helper: Resolve the imported keys for a channel (empty if none or import failed)
+   */
+  private async getChannelKeys(instanceId: string): Promise<ChannelKeys> {
+    try {
+      return (await this.channelKeys.get(instanceId)) ?? {};
+    } catch {
+      return {};
+    }
+  }
+
   /**
    * PART 2: Get or create a channel for an instance
    * 
-   * Each Q&A instance (room) has its own ReliableChannel.
+   * Each Q&A instance (room) has its own channel from the transport.
    * Channels ensure messages are delivered and acknowledged.
    */
   async getOrCreateChannel(instanceId: string, senderId: string): Promise<void> {
-    if (!this.node || !this.encoder || !this.decoder) {
+    if (!this.transport.isInitialized()) {
       throw new Error('Node not initialized. Call initialize() first.');
     }
 
@@ -141,8 +210,9 @@ export class WakuService {
 
     console.log(`[Waku] Creating channel: ${instanceId}`);
     
-    // TODO 1.5: Create a ReliableChannel
-    // The channel handles message delivery guarantees and acknowledgments
+    // The Waku transport creates a ReliableChannel here (TODO 1.5)
+    // The sender ID is the same in every tab of this browser, so each tab joins as its own participant
+    const channel = await this.transport.createChannel(instanceId, `${senderId}-${this.tabId}`);
 
     // Initialize data structures for this channel
     this.channelListeners.set(instanceId, new Set());
@@ -152,9 +222,9 @@ export class WakuService {
     this.processedMessageIds.set(instanceId, storedIds);
     console.log(`[Waku] Loaded ${storedIds.size} processed message IDs from storage`);
 
-    // TODO 1.6: Set up message delivery event listeners
+    // TODO 1.6: Set up message delivery event listeners with channel.addEventListener()
     // These track the message lifecycle: sending → sent → acknowledged
-    // Events to handle:
+    // Events to handle (every transport emits the ReliableChannel events):
     // - 'sending-message': When message starts sending
     // - 'message-sent': When message is sent to network
     // - 'message-possibly-acknowledged': Pre-confirmation
@@ -164,11 +234,12 @@ export class WakuService {
     // For each event: emit SDS event and call appropriate callback
 
     // TODO 1.7: Set up incoming message listener
-    // Handle 'message-received' event:
-    // TODO 1.11: Decode the Protobuf payload
-    // TODO 1.12: Create content-based message ID for deduplication
-    // TODO 1.13: Check for duplicates and skip if already processed
-    // TODO 1.14: Mark as processed, save to localStorage, notify all listeners
+    // Handle 'message-received' event (the payload is in event.detail.payload):
+    // TODO 1.11: Decode and validate the payload with await this.parsePacket()
+    // Skip the message if it returns null (already reported as an SDS error)
+    // TODO 1.12: Create content-based message ID with await this.createContentMessageId()
+    // TODO 1.13: Check for duplicates with this.isProcessed() and skip if already processed
+    // TODO 1.14: Mark as processed with processedIds.add() (saved to localStorage), notify all listeners
 
     // TODO: Store the channel in the channels Map
     console.log(`[Waku] Successfully joined channel: ${instanceId}`);
@@ -183,10 +254,13 @@ export class WakuService {
 
     console.log(`[Waku] Leaving channel: ${instanceId}`);
     
+    channel.stop();
+    this.processedMessageIds.get(instanceId)?.flush();
     this.channels.delete(instanceId);
     this.channelListeners.delete(instanceId);
     this.processedMessageIds.delete(instanceId);
     this.messageCallbacks.delete(instanceId);
+    this.channelKeys.delete(instanceId);
     
     console.log(`[Waku] Left channel: ${instanceId}`);
   }
@@ -210,8 +284,7 @@ export class WakuService {
     console.log('[Waku] Sending message:', message.type, 'to channel:', instanceId);
 
     // TODO 1.8: Encode message using Protobuf DataPacket
-    // Create a DataPacket with type, timestamp, senderId, and stringified payload
-    // Then encode it to bytes
+    // Use await this.serializeMessage() - it also signs admin control messages
     
     // TODO 1.9: Send via reliable channel and get message ID
     // Use channel.send() with the serialized message
@@ -257,55 +330,204 @@ export class WakuService {
   }
 
   /**
-   * Helper: Create a reliable message ID based on message content
-   * This ensures consistent IDs across page reloads for deduplication
+   * Helper: Encode a message for sending
+   * Control messages are signed by the admin, other messages by the sender's
+   * identity, and everything is encrypted on channels with a key
    */
-  private createContentMessageId(
-    type: string,
-    timestamp: bigint | number,
-    senderId: string,
-    payload: string
-  ): string {
-    const content = `${type}:${timestamp}:${senderId}:${payload}`;
-    
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash;
+  private async serializeMessage(
+    instanceId: string,
+    message: WakuMessage,
+    senderId: string
+  ): Promise<Uint8Array> {
+    const { signingKey, encryptionKey, identity } = await this.getChannelKeys(instanceId);
+    const packet = encodePacket(message, senderId);
+
+    let signature: Uint8Array | undefined;
+    let senderKey: Uint8Array | undefined;
+    if (CONTROL_MESSAGE_TYPES.has(message.type)) {
+      if (signingKey) {
+        signature = await signBytes(signingKey, packet);
+      } else {
+        console.warn('[Waku] No admin signing key for channel, sending unsigned:', message.type);
+      }
+    } else if (identity && identity.senderId === senderId) {
+      signature = await signBytes(identity.signingKey, packet);
+      senderKey = identity.publicKey;
+    } else {
+      console.warn('[Waku] No identity for sender, sending unsigned:', message.type, senderId);
     }
-    
-    return `${hash.toString(16)}_${timestamp}`;
+
+    const envelope = encodeEnvelope({ packet, signature, senderKey });
+    if (!encryptionKey) {
+      return envelope;
+    }
+
+    // The instance ID is authenticated so ciphertext can't be replayed into another channel
+    const sealed = await encryptBytes(encryptionKey, envelope, textEncoder.encode(instanceId));
+    return encodeSealed(sealed);
   }
 
   /**
-   * Helper: Load processed message IDs from localStorage
+   * Helper: Decrypt and decode a received packet, validate it and check its signature
+   * Malformed, unreadable or unsigned packets are reported as SDS errors and dropped (null)
    */
-  private loadProcessedIds(instanceId: string): Set<string> {
-    try {
-      const key = `waku_processed_${instanceId}`;
-      const stored = localStorage.getItem(key);
-      if (stored) {
-        return new Set(JSON.parse(stored));
+  private async parsePacket(instanceId: string, bytes: Uint8Array): Promise<WakuMessage | null> {
+    const { verifyKey, encryptionKey } = await this.getChannelKeys(instanceId);
+
+    let envelopeBytes = bytes;
+    if (encryptionKey) {
+      try {
+        const { iv, ciphertext } = decodeSealed(bytes);
+        envelopeBytes = await decryptBytes(encryptionKey, iv, ciphertext, textEncoder.encode(instanceId));
+      } catch (error) {
+        console.warn('[Waku] Dropping message that could not be decrypted:', error);
+        this.emitSDSEvent({
+          type: 'error',
+          event: 'message-decrypt-error',
+          timestamp: Date.now(),
+          details: { error },
+          instanceId
+        });
+        return null;
       }
+    }
+
+    let raw: unknown;
+    let envelope: PacketEnvelope;
+    try {
+      envelope = decodeEnvelope(envelopeBytes);
+      raw = decodePacket(envelope.packet);
     } catch (error) {
-      console.warn('[Waku] Failed to load processed IDs from storage:', error);
+      console.error('[Waku] Failed to decode message:', error);
+      this.emitSDSEvent({
+        type: 'error',
+        event: 'message-decode-error',
+        timestamp: Date.now(),
+        details: { error },
+        instanceId
+      });
+      return null;
+    }
+
+    const result = parseWakuMessage(raw);
+    if ('error' in result) {
+      console.warn('[Waku] Dropping invalid message:', result.error);
+      this.emitSDSEvent({
+        type: 'error',
+        event: 'message-validation-error',
+        timestamp: Date.now(),
+        details: { error: result.error, message: raw },
+        instanceId
+      });
+      return null;
+    }
+
+    const error = CONTROL_MESSAGE_TYPES.has(result.message.type)
+      ? await this.checkSignature(verifyKey, envelope.packet, envelope.signature)
+      : await this.checkSenderSignature(result.message.senderId, envelope);
+    if (error) {
+      console.warn('[Waku] Dropping message:', result.message.type, error);
+      this.emitSDSEvent({
+        type: 'error',
+        event: 'message-signature-error',
+        timestamp: Date.now(),
+        details: { error, message: result.message },
+        instanceId
+      });
+      return null;
+    }
+
+    return result.message;
+  }
+
+  /**
+   * Helper: Verify a control message signature against the admin public key
+   * Returns a reason string when the packet must be rejected
+   */
+  private async checkSignature(
+    verifyKey: CryptoKey | undefined,
+    packet: Uint8Array,
+    signature?: Uint8Array
+  ): Promise<string | null> {
+    if (!signature) {
+      return 'unsigned control message';
+    }
+    if (!verifyKey) {
+      return 'no admin public key for this channel';
+    }
+
+    try {
+      return (await verifyBytes(verifyKey, signature, packet)) ? null : 'invalid admin signature';
+    } catch (error) {
+      return `signature check failed: ${error}`;
     }
-    return new Set();
   }
 
   /**
-   * Helper: Save processed message IDs to localStorage
+   * Helper: Verify an attendee message against the public key it carries
+   * The sender ID must be the one derived from that key, so nobody can post as someone else
    */
-  private saveProcessedIds(instanceId: string, ids: Set<string>): void {
+  private async checkSenderSignature(senderId: string, envelope: PacketEnvelope): Promise<string | null> {
+    if (!envelope.signature || !envelope.senderKey) {
+      return 'unsigned attendee message';
+    }
+
     try {
-      const key = `waku_processed_${instanceId}`;
-      const idsArray = Array.from(ids);
-      const toStore = idsArray.slice(-this.MAX_PROCESSED_IDS);
-      localStorage.setItem(key, JSON.stringify(toStore));
+      const publicKey = toBase64Url(envelope.senderKey);
+      if ((await senderIdForKey(publicKey)) !== senderId) {
+        return 'sender ID does not match the sender key';
+      }
+      const verifyKey = await importVerifyKey(publicKey);
+      return (await verifyBytes(verifyKey, envelope.signature, envelope.packet)) ? null : 'invalid sender signature';
     } catch (error) {
-      console.warn('[Waku] Failed to save processed IDs to storage:', error);
+      return `sender signature check failed: ${error}`;
+    }
+  }
+
+  /**
+   * Helper: Create a reliable message ID based on message content
+   * See contentMessageId() in lib/dedup.ts
+   */
+  private async createContentMessageId(message: WakuMessage): Promise<string> {
+    return contentMessageId(message);
+  }
+
+  /**
+   * Helper: Check whether a message was already processed on a channel
+   * Messages outside the dedup window count as processed: older ones since their
+   * IDs may be gone, far-future ones since their IDs would be gone before they expire
+   */
+  private isProcessed(
+    instanceId: string,
+    processedIds: DedupStore,
+    message: WakuMessage,
+    messageId: string
+  ): boolean {
+    if (processedIds.has(messageId)) {
+      return true;
+    }
+
+    if (processedIds.isExpired(message.timestamp)) {
+      console.warn('[Waku] Dropping message outside the dedup window:', message.type, messageId);
+      this.emitSDSEvent({
+        type: 'error',
+        event: 'message-expired',
+        timestamp: Date.now(),
+        details: { messageId, message },
+        instanceId
+      });
+      return true;
     }
+
+    return false;
+  }
+
+  /**
+   * Helper: Load the processed message IDs of a channel from localStorage
+   * IDs stored by versions before message digests are dropped, see lib/dedup.ts
+   */
+  private loadProcessedIds(instanceId: string): DedupStore {
+    return new DedupStore(`waku_processed_${instanceId}`);
   }
 
   /**
@@ -319,32 +541,24 @@ export class WakuService {
       await this.leaveChannel(instanceId);
     }
     
-    if (this.node) {
-      await this.node.stop();
-      this.node = null;
-    }
+    this.unsubscribeHealth?.();
+    this.unsubscribeHealth = null;
+    await this.transport.stop();
     
-    this.encoder = null;
-    this.decoder = null;
     this.healthListeners.clear();
     this.channels.clear();
     this.channelListeners.clear();
+    this.processedMessageIds.forEach(store => store.flush());
     this.processedMessageIds.clear();
     this.messageCallbacks.clear();
     this.sdsEventListeners.clear();
+    this.channelKeys.clear();
     this.isHealthy = false;
     
     console.log('[Waku] Service stopped');
   }
 }
 
-/**
- * Helper: Generate a unique sender ID for this client
- */
-export function generateSenderId(): string {
-  return `user-${Math.random().toString(36).substring(2, 11)}`;
-}
-
 /**
  * Helper: Generate a random instance ID (for creating new Q&A sessions)
  */
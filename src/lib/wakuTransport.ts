@@ -0,0 +1,89 @@
+/**
+ * Waku network transport - WORKSHOP STARTER
+ *
+ * Connects to the Waku network with a light node and joins one ReliableChannel
+ * per instance. Follow TODOs 1.1-1.5 and refer to WORKSHOP_GUIDE.md Part 1.
+ *
+ * Architecture:
+ * - Single Waku node initialized once per app
+ * - Single content topic: /pulsecheck/2/data/proto
+ * - Each instance (Q&A session) has its own ReliableChannel
+ */
+
+import { createLightNode, ReliableChannel, HealthStatus, WakuEvent } from '@waku/sdk';
+import type { IDecodedMessage, IDecoder, IEncoder, LightNode } from '@waku/sdk';
+import type { Transport, TransportChannel } from '@/lib/transport';
+
+export class WakuTransport implements Transport {
+  private node: LightNode | null = null;
+  private encoder: IEncoder | null = null;
+  private decoder: IDecoder<IDecodedMessage> | null = null;
+  private isHealthy: boolean = false;
+  private healthListeners: Set<(isHealthy: boolean) => void> = new Set();
+
+  /**
+   * Initialize the Waku node and connect to the network
+   *
+   * It only needs to be called once for the entire app.
+   */
+  async initialize(): Promise<void> {
+    if (this.node) {
+      console.log('[Waku] Node already initialized');
+      return;
+    }
+
+    console.log('[Waku] Initializing light node...');
+
+    // TODO 1.1: Create a Waku light node with default bootstrap
+    // This creates a browser-optimized node that automatically discovers peers
+
+    // TODO 1.2: Define the content topic for message routing
+    // Format: /app-name/version/type/encoding
+
+    // TODO 1.3: Create encoder and decoder for the content topic
+    // These are used to serialize/deserialize messages
+
+    // TODO 1.4: Set up health status listener
+    // Listen to WakuEvent.Health ('waku:health') events and update this.isHealthy
+    // Notify healthListeners when status changes
+
+    console.log('[Waku] Light node initialized successfully');
+  }
+
+  isInitialized(): boolean {
+    return !!(this.node && this.encoder && this.decoder);
+  }
+
+  /**
+   * Join the ReliableChannel for an instance
+   * Channels ensure messages are delivered and acknowledged.
+   */
+  async createChannel(channelId: string, participantId: string): Promise<TransportChannel> {
+    if (!this.node || !this.encoder || !this.decoder) {
+      throw new Error('Node not initialized. Call initialize() first.');
+    }
+
+    // TODO 1.5: Create a ReliableChannel and return it
+    // The channel handles message delivery guarantees and acknowledgments
+
+    throw new Error('createChannel not implemented - see TODO 1.5');
+  }
+
+  onHealthChange(listener: (isHealthy: boolean) => void): () => void {
+    this.healthListeners.add(listener);
+    listener(this.isHealthy);
+    return () => this.healthListeners.delete(listener);
+  }
+
+  async stop(): Promise<void> {
+    if (this.node) {
+      await this.node.stop();
+      this.node = null;
+    }
+
+    this.encoder = null;
+    this.decoder = null;
+    this.healthListeners.clear();
+    this.isHealthy = false;
+  }
+}
@@ -3,11 +3,13 @@
  * 
  * Allows admin to:
  * - Create questions
- * - Activate/deactivate questions
+ * - Activate/deactivate questions (timed questions close themselves)
  * - View live results with visualizations
+ * - Reveal quiz answers and follow the leaderboard
+ * - Moderate questions asked by the audience
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -17,26 +19,94 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { QuestionManager } from '@/components/QuestionManager';
 import { ResultsView } from '@/components/ResultsView';
+import { ExportMenu } from '@/components/ExportMenu';
+import { Leaderboard } from '@/components/Leaderboard';
+import { ModerationQueue } from '@/components/ModerationQueue';
 import { ConnectionStatus } from '@/components/ConnectionStatus';
 import { useWaku } from '@/hooks/useWaku';
-import { MessageType, type Question, type Answer } from '@/types/waku';
-import { Copy, Check, ArrowLeft } from 'lucide-react';
+import {
+  MessageType,
+  type Question,
+  type QuestionDraft,
+  type Answer,
+  type AdminKeyPair,
+  type AudienceQuestion,
+  type AudienceQuestionStatus,
+  type SynonymMap,
+  type AnswerGroupAssignments,
+  type QuestionEdit
+} from '@/types/waku';
+import { Copy, Check, ArrowLeft, MonitorPlay } from 'lucide-react';
 import { toast } from 'sonner';
-import { saveInstance, saveQuestions, saveAnswers, getQuestions, getAnswers, getInstance } from '@/lib/storage';
+import {
+  saveInstance,
+  saveQuestions,
+  saveAnswers,
+  saveAudienceQuestions,
+  getQuestions,
+  getAnswers,
+  getAudienceQuestions,
+  getInstance
+} from '@/lib/storage';
 import { Version } from '@/components/Version';
 import { DevConsole } from '@/components/DevConsole';
+import { generateAdminKeyPair, generateChannelKey } from '@/lib/crypto';
+import { buildAttendeeUrl, buildPresenterUrl } from '@/lib/join';
+import {
+  activateQuestion,
+  applyQuestionEdit,
+  deactivateQuestion,
+  isAfterClose,
+  reorderQuestions
+} from '@/lib/questions';
+import {
+  allowsAnswerChanges,
+  applyAnswerUpdate,
+  applyAnswerRetraction,
+  applyAnswerSubmission,
+  countedAnswers
+} from '@/lib/answers';
+import { buildLeaderboard, isQuizQuestion, publicQuestion } from '@/lib/quiz';
+import { buildLiveResults, buildQuestionResults } from '@/lib/published';
+import { addAudienceQuestion, applyModeration, applyUpvote } from '@/lib/audience';
 import QRCode from 'react-qr-code';
 
+// Snapshot requests arriving within this window are answered with a single snapshot
+const SNAPSHOT_DEBOUNCE_MS = 1000;
+
 export default function Admin() {
   const { instanceId } = useParams<{ instanceId: string }>();
   const navigate = useNavigate();
   const [questions, setQuestions] = useState<Question[]>([]);
   const [answers, setAnswers] = useState<Answer[]>([]);
+  const [audienceQuestions, setAudienceQuestions] = useState<AudienceQuestion[]>([]);
   const [copied, setCopied] = useState(false);
   const [instanceName, setInstanceName] = useState('');
   const [showQRModal, setShowQRModal] = useState(false);
-  
-  const { isConnected, isInitializing, error, sendMessage, onMessage } = useWaku(instanceId || null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [instanceKeys, setInstanceKeys] = useState<{ adminKeys: AdminKeyPair; channelKey: string } | null>(null);
+
+  const security = useMemo(
+    () => instanceKeys
+      ? {
+          adminPublicKey: instanceKeys.adminKeys.publicKey,
+          adminPrivateKey: instanceKeys.adminKeys.privateKey,
+          channelKey: instanceKeys.channelKey
+        }
+      : undefined,
+    [instanceKeys]
+  );
+
+  const questionsRef = useRef<Question[]>([]);
+  const answersRef = useRef<Answer[]>([]);
+  const audienceQuestionsRef = useRef<AudienceQuestion[]>([]);
+  const snapshotTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Only join once the keys are loaded so messages are always signed and encrypted
+  const { isConnected, isInitializing, error, sendMessage, onMessage } = useWaku(
+    instanceKeys ? instanceId || null : null,
+    security
+  );
 
   // Load persisted data on mount
   useEffect(() => {
@@ -58,13 +128,54 @@ export default function Admin() {
     // Load answers
     const persistedAnswers = getAnswers(instanceId);
     setAnswers(persistedAnswers);
+    setAudienceQuestions(getAudienceQuestions(instanceId));
+    setIsLoaded(true);
 
     console.log('[Admin] Loaded questions:', questions.length, 'answers:', answers.length);
   }, [instanceId]);
 
-  // Auto-save questions whenever they change
+  // Load the instance keys, creating them for instances that predate signing/encryption
+  useEffect(() => {
+    if (!instanceId) return;
+
+    const instance = getInstance(instanceId);
+    if (instance?.adminKeys && instance.channelKey) {
+      setInstanceKeys({ adminKeys: instance.adminKeys, channelKey: instance.channelKey });
+      return;
+    }
+
+    let cancelled = false;
+    Promise.all([
+      instance?.adminKeys ?? generateAdminKeyPair(),
+      instance?.channelKey ?? generateChannelKey()
+    ])
+      .then(([adminKeys, channelKey]) => {
+        if (cancelled) return;
+        console.log('[Admin] Generated keys for instance:', instanceId);
+        saveInstance({
+          id: instanceId,
+          name: `Instance ${instanceId}`,
+          questions: getQuestions(instanceId),
+          createdAt: Date.now(),
+          ...getInstance(instanceId),
+          adminKeys,
+          channelKey
+        });
+        setInstanceKeys({ adminKeys, channelKey });
+      })
+      .catch(err => {
+        console.error('[Admin] Failed to generate instance keys:', err);
+        toast.error('Could not create keys for this instance');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instanceId]);
+
+  // Auto-save questions whenever they change (once loaded, so deletions down to zero persist)
   useEffect(() => {
-    if (!instanceId || questions.length === 0) return;
+    if (!instanceId || !isLoaded) return;
     
     console.log('[Admin] Auto-saving questions:', questions.length);
     saveQuestions(instanceId, questions);
@@ -74,36 +185,213 @@ export default function Admin() {
       id: instanceId,
       name: instanceName || `Instance ${instanceId}`,
       questions,
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      adminKeys: instanceKeys?.adminKeys,
+      channelKey: instanceKeys?.channelKey
     });
-  }, [instanceId, questions, instanceName]);
+  }, [instanceId, isLoaded, questions, instanceName, instanceKeys]);
 
   // Auto-save answers whenever they change
   useEffect(() => {
-    if (!instanceId || answers.length === 0) return;
+    if (!instanceId || !isLoaded) return;
     
     console.log('[Admin] Auto-saving answers:', answers.length);
     saveAnswers(instanceId, answers);
-  }, [instanceId, answers]);
+  }, [instanceId, isLoaded, answers]);
+
+  // Auto-save audience questions whenever they change
+  useEffect(() => {
+    if (!instanceId || !isLoaded) return;
+
+    saveAudienceQuestions(instanceId, audienceQuestions);
+  }, [instanceId, isLoaded, audienceQuestions]);
+
+  // Keep the latest questions and answers reachable from message handlers
+  useEffect(() => {
+    questionsRef.current = questions;
+  }, [questions]);
+
+  useEffect(() => {
+    answersRef.current = answers;
+  }, [answers]);
+
+  useEffect(() => {
+    audienceQuestionsRef.current = audienceQuestions;
+  }, [audienceQuestions]);
+
+  // Send the current session state to late joiners (signed like any control message)
+  const scheduleSnapshot = useCallback(() => {
+    if (snapshotTimerRef.current) return;
+
+    snapshotTimerRef.current = setTimeout(async () => {
+      snapshotTimerRef.current = null;
+      const answers = answersRef.current;
+      const attendeeIds = new Set(answers.map(a => a.senderId));
+      audienceQuestionsRef.current.forEach(q => {
+        attendeeIds.add(q.senderId);
+        q.upvoterIds.forEach(id => attendeeIds.add(id));
+      });
+
+      try {
+        await sendMessage({
+          type: MessageType.SESSION_SNAPSHOT,
+          timestamp: Date.now(),
+          senderId: '',
+          payload: {
+            questions: questionsRef.current.map(publicQuestion),
+            audienceQuestions: audienceQuestionsRef.current,
+            // Presenter screens joining late start from these counts
+            liveResults: questionsRef.current
+              .filter(q => q.active)
+              .map(q => buildLiveResults(q, countedAnswers(q, answers))),
+            attendeeIds: [...attendeeIds]
+          }
+        });
+        console.log(
+          '[Admin] Session snapshot sent:', questionsRef.current.length, 'questions,',
+          audienceQuestionsRef.current.length, 'audience questions'
+        );
+      } catch (err) {
+        console.error('[Admin] Failed to send session snapshot:', err);
+      }
+    }, SNAPSHOT_DEBOUNCE_MS);
+  }, [sendMessage]);
+
+  useEffect(() => {
+    return () => {
+      if (snapshotTimerRef.current) {
+        clearTimeout(snapshotTimerRef.current);
+      }
+    };
+  }, []);
 
-  // Listen for incoming answers
+  // Listen for incoming answers and state requests
   useEffect(() => {
     if (!isConnected) return;
 
+    // Rejected submissions are counted on the question and shown with its results
+    const countRejected = (questionId: string) => {
+      setQuestions(prev =>
+        prev.map(q => q.id === questionId ? { ...q, rejectedAnswers: (q.rejectedAnswers ?? 0) + 1 } : q)
+      );
+    };
+
     const unsubscribe = onMessage((message) => {
+      if (
+        message.type === MessageType.ANSWER_SUBMITTED ||
+        message.type === MessageType.ANSWER_UPDATED ||
+        message.type === MessageType.ANSWER_RETRACTED
+      ) {
+        const questionId = message.type === MessageType.ANSWER_RETRACTED
+          ? message.payload.questionId
+          : message.payload.answer.questionId;
+        const question = questionsRef.current.find(q => q.id === questionId);
+        if (question && isAfterClose(question, Date.now())) {
+          console.warn('[Admin] Rejecting answer sent after the question closed:', questionId, message.senderId);
+          if (message.type !== MessageType.ANSWER_RETRACTED) {
+            countRejected(questionId);
+          }
+          return;
+        }
+      }
+
       if (message.type === MessageType.ANSWER_SUBMITTED) {
-        setAnswers(prev => [...prev, message.payload.answer]);
+        const answer = { ...message.payload.answer, receivedAt: Date.now() };
+        const question = questionsRef.current.find(q => q.id === answer.questionId);
+        const replacesAnswer = answersRef.current.some(
+          a => a.questionId === answer.questionId && a.senderId === answer.senderId && a.id !== answer.id
+        );
+        const accepted = applyAnswerSubmission(answersRef.current, question, answer);
+        if (!accepted) {
+          console.warn('[Admin] Rejecting answer under the answer policy:', answer.questionId, message.senderId);
+          countRejected(answer.questionId);
+          return;
+        }
+
+        // Several answers may arrive before the next render
+        answersRef.current = accepted;
+        setAnswers(prev => applyAnswerSubmission(prev, question, answer) ?? prev);
+        if (replacesAnswer && question && allowsAnswerChanges(question)) {
+          scheduleSnapshot(); // presenter screens count the earlier answer from a snapshot
+        }
         toast.success('New answer received!');
+      } else if (message.type === MessageType.ANSWER_UPDATED || message.type === MessageType.ANSWER_RETRACTED) {
+        const questionId = message.type === MessageType.ANSWER_UPDATED
+          ? message.payload.answer.questionId
+          : message.payload.questionId;
+        const question = questionsRef.current.find(q => q.id === questionId);
+        if (!question || !allowsAnswerChanges(question)) {
+          console.warn('[Admin] Rejecting answer change, the answer policy allows none:', questionId, message.senderId);
+          if (question && message.type === MessageType.ANSWER_UPDATED) {
+            countRejected(questionId);
+          }
+          return;
+        }
+
+        if (message.type === MessageType.ANSWER_UPDATED) {
+          const answer = { ...message.payload.answer, receivedAt: Date.now() };
+          const accepted = applyAnswerUpdate(answersRef.current, answer);
+          if (!accepted) {
+            console.warn('[Admin] Rejecting answer update older than the answer held:', questionId, message.senderId);
+            countRejected(questionId);
+            return;
+          }
+
+          answersRef.current = accepted;
+          setAnswers(prev => applyAnswerUpdate(prev, answer) ?? prev);
+          toast.info('An answer was updated');
+        } else {
+          answersRef.current = applyAnswerRetraction(answersRef.current, questionId, message.senderId);
+          setAnswers(prev => applyAnswerRetraction(prev, questionId, message.senderId));
+          toast.info('An answer was retracted');
+        }
+
+        // Presenter screens may count the earlier answer from a snapshot, refresh it
+        scheduleSnapshot();
+      } else if (message.type === MessageType.AUDIENCE_QUESTION_POSTED) {
+        setAudienceQuestions(prev => addAudienceQuestion(prev, message.payload.audienceQuestion));
+        toast.info('New audience question');
+      } else if (message.type === MessageType.AUDIENCE_QUESTION_UPVOTED) {
+        setAudienceQuestions(prev =>
+          applyUpvote(prev, message.payload.questionId, message.senderId, message.payload.upvoted)
+        );
+      } else if (message.type === MessageType.STATE_REQUEST) {
+        console.log('[Admin] State requested by:', message.senderId);
+        scheduleSnapshot();
       }
     });
 
     return unsubscribe;
-  }, [isConnected, onMessage]);
+  }, [isConnected, onMessage, scheduleSnapshot]);
 
-  const handleAddQuestion = async (questionText: string) => {
+  // Close timed questions when their time runs out (right away if it ran out while we were away)
+  useEffect(() => {
+    if (!isConnected) return;
+
+    const timers = questions
+      .filter(q => q.active && q.closesAt)
+      .map(q => setTimeout(async () => {
+        setQuestions(prev => prev.map(p => p.id === q.id ? deactivateQuestion(p, Date.now()) : p));
+        try {
+          await sendMessage({
+            type: MessageType.QUESTION_DEACTIVATED,
+            timestamp: Date.now(),
+            senderId: '',
+            payload: { questionId: q.id }
+          });
+          toast.info(`Time's up: "${q.text}" closed`);
+        } catch (err) {
+          console.error('[Admin] Failed to close timed question:', err);
+        }
+      }, Math.max(0, (q.closesAt ?? 0) - Date.now())));
+
+    return () => timers.forEach(clearTimeout);
+  }, [isConnected, questions, sendMessage]);
+
+  const handleAddQuestion = async (draft: QuestionDraft) => {
     const question: Question = {
+      ...draft,
       id: `q_${Date.now()}`,
-      text: questionText,
       active: false,
       createdAt: Date.now()
     };
@@ -115,29 +403,91 @@ export default function Admin() {
       type: MessageType.QUESTION_ADDED,
       timestamp: Date.now(),
       senderId: '',
-      payload: { question }
+      payload: { question: publicQuestion(question) }
     });
 
     toast.success('Question added successfully');
   };
 
+  const handleEditQuestion = async (questionId: string, edit: QuestionEdit) => {
+    setQuestions(prev =>
+      prev.map(q => q.id === questionId ? applyQuestionEdit(q, edit) : q)
+    );
+
+    await sendMessage({
+      type: MessageType.QUESTION_EDITED,
+      timestamp: Date.now(),
+      senderId: '',
+      payload: { questionId, ...edit }
+    });
+
+    toast.success('Question updated');
+  };
+
+  // Synonyms and manual groups only affect how results are grouped here, so they stay local
+  const handleSynonymsChange = (questionId: string, synonyms: SynonymMap) => {
+    setQuestions(prev =>
+      prev.map(q => q.id === questionId ? { ...q, synonyms } : q)
+    );
+    toast.success('Synonyms saved');
+  };
+
+  const handleGroupAssignmentsChange = (questionId: string, groupAssignments: AnswerGroupAssignments) => {
+    setQuestions(prev =>
+      prev.map(q => q.id === questionId ? { ...q, groupAssignments } : q)
+    );
+  };
+
+  const handleDeleteQuestion = async (questionId: string) => {
+    setQuestions(prev => prev.filter(q => q.id !== questionId));
+    setAnswers(prev => prev.filter(a => a.questionId !== questionId));
+
+    await sendMessage({
+      type: MessageType.QUESTION_DELETED,
+      timestamp: Date.now(),
+      senderId: '',
+      payload: { questionId }
+    });
+
+    toast.success('Question deleted');
+  };
+
+  const handleReorderQuestions = async (questionIds: string[]) => {
+    setQuestions(prev => reorderQuestions(prev, questionIds));
+
+    await sendMessage({
+      type: MessageType.QUESTIONS_REORDERED,
+      timestamp: Date.now(),
+      senderId: '',
+      payload: { questionIds }
+    });
+  };
+
   const handleToggleActive = async (questionId: string) => {
     const question = questions.find(q => q.id === questionId);
     if (!question) return;
 
     const newActiveState = !question.active;
+    const updated = newActiveState ? activateQuestion(question, Date.now()) : deactivateQuestion(question, Date.now());
     
     setQuestions(prev =>
-      prev.map(q => q.id === questionId ? { ...q, active: newActiveState } : q)
+      prev.map(q => q.id === questionId ? updated : q)
     );
 
     // Broadcast state change
-    await sendMessage({
-      type: newActiveState ? MessageType.QUESTION_ACTIVATED : MessageType.QUESTION_DEACTIVATED,
-      timestamp: Date.now(),
-      senderId: '',
-      payload: { questionId }
-    });
+    await sendMessage(newActiveState
+      ? {
+          type: MessageType.QUESTION_ACTIVATED,
+          timestamp: Date.now(),
+          senderId: '',
+          payload: { questionId, closesAt: updated.closesAt }
+        }
+      : {
+          type: MessageType.QUESTION_DEACTIVATED,
+          timestamp: Date.now(),
+          senderId: '',
+          payload: { questionId }
+        });
 
     toast.success(newActiveState ? 'Question activated' : 'Question deactivated');
   };
@@ -155,7 +505,7 @@ export default function Admin() {
     // If last question is the only active one, just deactivate everything
     if (isLastQuestionOnlyActive) {
       setQuestions(prev =>
-        prev.map(q => ({ ...q, active: false }))
+        prev.map(q => q.active ? deactivateQuestion(q, Date.now()) : q)
       );
 
       await sendMessage({
@@ -184,7 +534,7 @@ export default function Admin() {
     // Deactivate all currently active questions
     for (const activeQ of activeQuestions) {
       setQuestions(prev =>
-        prev.map(q => q.id === activeQ.id ? { ...q, active: false } : q)
+        prev.map(q => q.id === activeQ.id ? deactivateQuestion(q, Date.now()) : q)
       );
 
       await sendMessage({
@@ -196,20 +546,70 @@ export default function Admin() {
     }
 
     // Activate the next question
+    const activated = activateQuestion(nextQuestion, Date.now());
     setQuestions(prev =>
-      prev.map(q => q.id === nextQuestion.id ? { ...q, active: true } : q)
+      prev.map(q => q.id === nextQuestion.id ? activated : q)
     );
 
     await sendMessage({
       type: MessageType.QUESTION_ACTIVATED,
       timestamp: Date.now(),
       senderId: '',
-      payload: { questionId: nextQuestion.id }
+      payload: { questionId: nextQuestion.id, closesAt: activated.closesAt }
     });
 
     toast.success(`Question ${firstInactiveIndex + 1} activated`);
   };
 
+  const handleRevealAnswer = async (questionId: string) => {
+    const question = questions.find(q => q.id === questionId);
+    if (!question || !isQuizQuestion(question) || question.revealedAt) return;
+
+    const nextQuestions = questions.map(q => q.id === questionId ? { ...q, revealedAt: Date.now() } : q);
+    setQuestions(nextQuestions);
+
+    await sendMessage({
+      type: MessageType.QUIZ_REVEALED,
+      timestamp: Date.now(),
+      senderId: '',
+      payload: {
+        questionId,
+        correctOptionIds: question.correctOptionIds ?? [],
+        leaderboard: buildLeaderboard(nextQuestions, answers)
+      }
+    });
+
+    toast.success('Answer revealed');
+  };
+
+  const handlePublishResults = async (questionId: string) => {
+    const question = questions.find(q => q.id === questionId);
+    if (!question || question.active) return;
+
+    const results = buildQuestionResults(question, countedAnswers(question, answers));
+    setQuestions(prev => prev.map(q => q.id === questionId ? { ...q, publishedResults: results } : q));
+
+    await sendMessage({
+      type: MessageType.RESULTS_PUBLISHED,
+      timestamp: Date.now(),
+      senderId: '',
+      payload: { questionId, results }
+    });
+
+    toast.success('Results published to attendees');
+  };
+
+  const handleModerateAudienceQuestion = async (questionId: string, status: AudienceQuestionStatus) => {
+    setAudienceQuestions(prev => applyModeration(prev, questionId, status));
+
+    await sendMessage({
+      type: MessageType.AUDIENCE_QUESTION_MODERATED,
+      timestamp: Date.now(),
+      senderId: '',
+      payload: { questionId, status }
+    });
+  };
+
   const handleCopyInstanceId = () => {
     if (instanceId) {
       navigator.clipboard.writeText(instanceId);
@@ -219,6 +619,15 @@ export default function Admin() {
     }
   };
 
+  const leaderboard = useMemo(() => buildLeaderboard(questions, answers), [questions, answers]);
+
+  const joinCredentials = {
+    adminPublicKey: instanceKeys?.adminKeys.publicKey,
+    channelKey: instanceKeys?.channelKey
+  };
+  const attendeeUrl = instanceId ? buildAttendeeUrl(instanceId, joinCredentials) : '';
+  const presenterUrl = instanceId ? buildPresenterUrl(instanceId, joinCredentials) : '';
+
   if (!instanceId) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/5 to-accent/5">
@@ -257,6 +666,7 @@ export default function Admin() {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <ExportMenu instanceId={instanceId} size="sm" />
               <Version />
               <ConnectionStatus isConnected={isConnected} isInitializing={isInitializing} />
             </div>
@@ -288,8 +698,14 @@ export default function Admin() {
                   </Button>
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  Attendees can join at: <code className="text-xs bg-muted px-2 py-1 rounded">{window.location.origin}/attendee/{instanceId}</code>
+                  Attendees can join at: <code className="text-xs bg-muted px-2 py-1 rounded break-all">{attendeeUrl}</code>
                 </p>
+                <Button variant="outline" size="sm" asChild>
+                  <a href={presenterUrl} target="_blank" rel="noopener noreferrer">
+                    <MonitorPlay className="h-4 w-4 mr-2" />
+                    Open presenter view
+                  </a>
+                </Button>
               </div>
               <button
                 onClick={() => setShowQRModal(true)}
@@ -297,7 +713,7 @@ export default function Admin() {
                 aria-label="View larger QR code"
               >
                 <QRCode
-                  value={`${window.location.origin}/attendee/${instanceId}`}
+                  value={attendeeUrl}
                   size={128}
                   level="M"
                 />
@@ -318,13 +734,13 @@ export default function Admin() {
             <div className="flex flex-col items-center gap-4 py-4">
               <div className="p-6 bg-white rounded-lg">
                 <QRCode
-                  value={`${window.location.origin}/attendee/${instanceId}`}
+                  value={attendeeUrl}
                   size={256}
                   level="H"
                 />
               </div>
-              <p className="text-sm text-muted-foreground text-center">
-                {window.location.origin}/attendee/{instanceId}
+              <p className="text-sm text-muted-foreground text-center break-all">
+                {attendeeUrl}
               </p>
             </div>
           </DialogContent>
@@ -340,7 +756,7 @@ export default function Admin() {
 
         {/* Main Content */}
         <Tabs defaultValue="questions" className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsList className="grid w-full max-w-2xl grid-cols-4">
             <TabsTrigger value="questions">
               Questions
               <Badge variant="secondary" className="ml-2">
@@ -353,20 +769,57 @@ export default function Admin() {
                 {answers.length}
               </Badge>
             </TabsTrigger>
+            <TabsTrigger value="audience">
+              Audience Q&A
+              <Badge variant="secondary" className="ml-2">
+                {audienceQuestions.filter(q => q.status === 'open' || q.status === 'pinned').length}
+              </Badge>
+            </TabsTrigger>
+            <TabsTrigger value="leaderboard">
+              Leaderboard
+              <Badge variant="secondary" className="ml-2">
+                {leaderboard.length}
+              </Badge>
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="questions" className="space-y-4">
             <QuestionManager
               questions={questions}
               onAddQuestion={handleAddQuestion}
+              onEditQuestion={handleEditQuestion}
+              onDeleteQuestion={handleDeleteQuestion}
+              onReorderQuestions={handleReorderQuestions}
               onToggleActive={handleToggleActive}
               onNextQuestion={handleNextQuestion}
+              onRevealAnswer={handleRevealAnswer}
+              onPublishResults={handlePublishResults}
               disabled={!isConnected}
             />
           </TabsContent>
 
           <TabsContent value="results" className="space-y-4">
-            <ResultsView questions={questions} answers={answers} />
+            <ResultsView
+              questions={questions}
+              answers={answers}
+              onSynonymsChange={handleSynonymsChange}
+              onGroupAssignmentsChange={handleGroupAssignmentsChange}
+            />
+          </TabsContent>
+
+          <TabsContent value="audience" className="space-y-4">
+            <ModerationQueue
+              questions={audienceQuestions}
+              onModerate={handleModerateAudienceQuestion}
+              disabled={!isConnected}
+            />
+          </TabsContent>
+
+          <TabsContent value="leaderboard" className="space-y-4">
+            <Leaderboard
+              leaderboard={leaderboard}
+              revealedCount={questions.filter(q => isQuizQuestion(q) && q.revealedAt).length}
+            />
           </TabsContent>
         </Tabs>
       </div>
@@ -5,32 +5,97 @@
  * - Join an instance by ID
  * - View active questions
  * - Submit answers
+ * - Ask the speaker questions and upvote others' questions
  */
 
-import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
 import { ConnectionStatus } from '@/components/ConnectionStatus';
 import { QuestionCard } from '@/components/QuestionCard';
 import { useWaku } from '@/hooks/useWaku';
-import { MessageType, type Question, type Answer } from '@/types/waku';
-import { ArrowLeft, Users } from 'lucide-react';
+import { QuizScoreCard } from '@/components/QuizScoreCard';
+import { PublishedResults } from '@/components/PublishedResults';
+import { AudienceQuestions } from '@/components/AudienceQuestions';
+import {
+  MessageType,
+  type Question,
+  type Answer,
+  type AnswerInput,
+  type AudienceQuestion,
+  type LeaderboardEntry
+} from '@/types/waku';
+import { ArrowLeft, Users, ShieldAlert, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
 import { Version } from '@/components/Version';
-import { saveQuestions, getQuestions } from '@/lib/storage';
+import {
+  saveQuestions,
+  getQuestions,
+  saveAudienceQuestions,
+  getAudienceQuestions,
+  getJoinCredentials,
+  saveJoinCredentials,
+  getSubmittedAnswers,
+  saveSubmittedAnswers
+} from '@/lib/storage';
+import { parseJoinFragment } from '@/lib/join';
+import { resetIdentity } from '@/lib/identity';
+import { estimateClockOffset } from '@/lib/clock';
+import { applyQuestionEdit, reorderQuestions } from '@/lib/questions';
+import { allowsAnswerChanges } from '@/lib/answers';
+import { addAudienceQuestion, applyModeration, applyUpvote, mergeAudienceQuestions } from '@/lib/audience';
 
 type MessageStatus = 'idle' | 'sending' | 'sent' | 'acknowledged';
 
 export default function Attendee() {
   const { instanceId } = useParams<{ instanceId: string }>();
   const navigate = useNavigate();
+  const location = useLocation();
   const [questions, setQuestions] = useState<Question[]>([]);
-  const [submittedAnswers, setSubmittedAnswers] = useState<Set<string>>(new Set());
+  const [audienceQuestions, setAudienceQuestions] = useState<AudienceQuestion[]>([]);
+  const [submittedAnswers, setSubmittedAnswers] = useState<Map<string, AnswerInput>>(new Map()); // questionId -> submitted answer
+  const [submittedLoadedFor, setSubmittedLoadedFor] = useState<string | null>(null); // senderId the answers were loaded for
   const [messageStatuses, setMessageStatuses] = useState<Map<string, MessageStatus>>(new Map());
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Estimated admin clock minus ours, so countdowns end when the admin closes the question
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
+  const [quizResult, setQuizResult] = useState<{ questionId: string; leaderboard: LeaderboardEntry[] } | null>(null);
+
+  // Credentials come from the join link fragment, or from a previous visit
+  const credentials = useMemo(() => {
+    const fromLink = parseJoinFragment(location.hash);
+    if (fromLink.adminPublicKey || fromLink.channelKey || !instanceId) return fromLink;
+    return getJoinCredentials(instanceId);
+  }, [instanceId, location.hash]);
+
+  const security = useMemo(
+    () => ({ adminPublicKey: credentials.adminPublicKey, channelKey: credentials.channelKey }),
+    [credentials]
+  );
   
-  const { isConnected, isInitializing, isReady, error, sendMessage, onMessage, senderId } = useWaku(instanceId || null);
+  const { isConnected, isInitializing, isReady, error, sendMessage, onMessage, senderId } = useWaku(
+    instanceId || null,
+    security
+  );
+
+  // Remember credentials so the instance can be rejoined by ID alone
+  useEffect(() => {
+    if (!instanceId || (!credentials.adminPublicKey && !credentials.channelKey)) return;
+    saveJoinCredentials(instanceId, credentials);
+  }, [instanceId, credentials]);
 
   // Load persisted questions on mount
   useEffect(() => {
@@ -42,15 +107,38 @@ export default function Attendee() {
       setQuestions(persistedQuestions);
       console.log('[Attendee] Loaded', persistedQuestions.length, 'questions from storage');
     }
+    setAudienceQuestions(getAudienceQuestions(instanceId));
+    setIsLoaded(true);
   }, [instanceId]);
 
-  // Auto-save questions whenever they change
+  // Auto-save questions whenever they change (once loaded, so deletions down to zero persist)
   useEffect(() => {
-    if (!instanceId || questions.length === 0) return;
+    if (!instanceId || !isLoaded) return;
     
     console.log('[Attendee] Auto-saving questions:', questions.length);
     saveQuestions(instanceId, questions);
-  }, [instanceId, questions]);
+  }, [instanceId, isLoaded, questions]);
+
+  useEffect(() => {
+    if (!instanceId || !isLoaded) return;
+
+    saveAudienceQuestions(instanceId, audienceQuestions);
+  }, [instanceId, isLoaded, audienceQuestions]);
+
+  // Restore what this identity already answered, so a reload doesn't offer to submit again
+  useEffect(() => {
+    if (!instanceId || !senderId) return;
+
+    const stored = getSubmittedAnswers(instanceId);
+    setSubmittedAnswers(stored?.senderId === senderId ? new Map(Object.entries(stored.answers)) : new Map());
+    setSubmittedLoadedFor(senderId);
+  }, [instanceId, senderId]);
+
+  useEffect(() => {
+    if (!instanceId || !senderId || submittedLoadedFor !== senderId) return;
+
+    saveSubmittedAnswers(instanceId, { senderId, answers: Object.fromEntries(submittedAnswers) });
+  }, [instanceId, senderId, submittedLoadedFor, submittedAnswers]);
 
   // Listen for question updates - only after Waku is ready
   useEffect(() => {
@@ -59,6 +147,10 @@ export default function Attendee() {
       return;
     }
 
+    const updateClockOffset = (adminTimestamp: number) => {
+      setClockOffset(prev => estimateClockOffset(prev, adminTimestamp));
+    };
+
     console.log('[Attendee] Setting up message listener');
     const unsubscribe = onMessage((message) => {
       console.log('[Attendee] Processing message:', message.type, message.payload);
@@ -77,9 +169,12 @@ export default function Attendee() {
           break;
         
         case MessageType.QUESTION_ACTIVATED:
+          updateClockOffset(message.timestamp);
           setQuestions(prev => {
             const updated = prev.map(q =>
-              q.id === message.payload.questionId ? { ...q, active: true } : q
+              q.id === message.payload.questionId
+                ? { ...q, active: true, closesAt: message.payload.closesAt }
+                : q
             );
             console.log('[Attendee] Question activated:', message.payload.questionId);
             console.log('[Attendee] Updated questions:', updated);
@@ -96,11 +191,83 @@ export default function Attendee() {
           );
           console.log('[Attendee] Question deactivated:', message.payload.questionId);
           break;
+
+        case MessageType.QUESTION_EDITED:
+          setQuestions(prev =>
+            prev.map(q =>
+              q.id === message.payload.questionId ? applyQuestionEdit(q, message.payload) : q
+            )
+          );
+          console.log('[Attendee] Question edited:', message.payload.questionId);
+          break;
+
+        case MessageType.QUESTION_DELETED:
+          setQuestions(prev => prev.filter(q => q.id !== message.payload.questionId));
+          console.log('[Attendee] Question deleted:', message.payload.questionId);
+          break;
+
+        case MessageType.QUESTIONS_REORDERED:
+          setQuestions(prev => reorderQuestions(prev, message.payload.questionIds));
+          console.log('[Attendee] Questions reordered');
+          break;
+
+        case MessageType.QUIZ_REVEALED:
+          setQuestions(prev =>
+            prev.map(q =>
+              q.id === message.payload.questionId
+                ? { ...q, correctOptionIds: message.payload.correctOptionIds, revealedAt: message.timestamp }
+                : q
+            )
+          );
+          setQuizResult({ questionId: message.payload.questionId, leaderboard: message.payload.leaderboard });
+          console.log('[Attendee] Quiz answer revealed:', message.payload.questionId);
+          break;
+
+        case MessageType.RESULTS_PUBLISHED:
+          setQuestions(prev =>
+            prev.map(q => q.id === message.payload.questionId ? { ...q, publishedResults: message.payload.results } : q)
+          );
+          toast.info('Results are in!');
+          console.log('[Attendee] Results published:', message.payload.questionId);
+          break;
+
+        case MessageType.AUDIENCE_QUESTION_POSTED:
+          setAudienceQuestions(prev => addAudienceQuestion(prev, message.payload.audienceQuestion));
+          break;
+
+        case MessageType.AUDIENCE_QUESTION_UPVOTED:
+          setAudienceQuestions(prev =>
+            applyUpvote(prev, message.payload.questionId, message.senderId, message.payload.upvoted)
+          );
+          break;
+
+        case MessageType.AUDIENCE_QUESTION_MODERATED:
+          setAudienceQuestions(prev => applyModeration(prev, message.payload.questionId, message.payload.status));
+          console.log('[Attendee] Audience question moderated:', message.payload.questionId, message.payload.status);
+          break;
+
+        case MessageType.SESSION_SNAPSHOT:
+          // The admin's snapshot is authoritative for questions and active flags
+          console.log('[Attendee] Hydrating from session snapshot:', message.payload.questions.length, 'questions');
+          updateClockOffset(message.timestamp);
+          setQuestions(message.payload.questions);
+          setAudienceQuestions(prev => mergeAudienceQuestions(prev, message.payload.audienceQuestions));
+          break;
       }
     });
 
+    // Ask the admin for the current state in case we joined late
+    sendMessage({
+      type: MessageType.STATE_REQUEST,
+      timestamp: Date.now(),
+      senderId,
+      payload: {}
+    }).catch(err => {
+      console.warn('[Attendee] Failed to request session state:', err);
+    });
+
     return unsubscribe;
-  }, [isReady, onMessage]);
+  }, [isReady, onMessage, sendMessage, senderId]);
 
   // Debug log for questions
   useEffect(() => {
@@ -108,26 +275,52 @@ export default function Attendee() {
     console.log('[Attendee] Active questions:', questions.filter(q => q.active));
   }, [questions]);
 
-  const handleSubmitAnswer = async (questionId: string, answerText: string) => {
+  // Restore the submitted state of a question after a failed send
+  const restoreSubmittedAnswer = (questionId: string, previousAnswer: AnswerInput | undefined) => {
+    setSubmittedAnswers(prev => {
+      const next = new Map(prev);
+      if (previousAnswer === undefined) {
+        next.delete(questionId);
+      } else {
+        next.set(questionId, previousAnswer);
+      }
+      return next;
+    });
+  };
+
+  const handleSubmitAnswer = async (questionId: string, response: AnswerInput) => {
     const answer: Answer = {
+      ...response,
       id: `a_${Date.now()}`,
       questionId,
-      text: answerText,
       senderId,
       timestamp: Date.now()
     };
 
+    // A second submission replaces the earlier answer where the policy allows changes,
+    // and is another answer under the 'unlimited' policy
+    const question = questions.find(q => q.id === questionId);
+    const previousAnswer = submittedAnswers.get(questionId);
+    const isUpdate = previousAnswer !== undefined && !!question && allowsAnswerChanges(question);
+
     // Mark as submitted locally
-    setSubmittedAnswers(prev => new Set([...prev, questionId]));
+    setSubmittedAnswers(prev => new Map(prev).set(questionId, response));
 
     // Send answer via Waku with delivery callbacks
     await sendMessage(
-      {
-        type: MessageType.ANSWER_SUBMITTED,
-        timestamp: Date.now(),
-        senderId,
-        payload: { answer }
-      },
+      isUpdate
+        ? {
+            type: MessageType.ANSWER_UPDATED,
+            timestamp: Date.now(),
+            senderId,
+            payload: { answer }
+          }
+        : {
+            type: MessageType.ANSWER_SUBMITTED,
+            timestamp: Date.now(),
+            senderId,
+            payload: { answer }
+          },
       {
         onSending: () => {
           console.log('[Attendee] Message sending...');
@@ -140,23 +333,109 @@ export default function Attendee() {
         onAcknowledged: () => {
           console.log('[Attendee] Message acknowledged by peers');
           setMessageStatuses(prev => new Map(prev).set(questionId, 'acknowledged'));
-          toast.success('Answer received by peers!');
+          toast.success(isUpdate ? 'Updated answer received by peers!' : 'Answer received by peers!');
         },
         onError: (error) => {
           console.error('[Attendee] Error sending message:', error);
-          toast.error('Failed to submit answer. Please try again.');
+          toast.error(isUpdate ? 'Failed to update answer. Please try again.' : 'Failed to submit answer. Please try again.');
           setMessageStatuses(prev => new Map(prev).set(questionId, 'idle'));
-          setSubmittedAnswers(prev => {
-            const newSet = new Set(prev);
-            newSet.delete(questionId);
-            return newSet;
-          });
+          restoreSubmittedAnswer(questionId, previousAnswer);
+        }
+      }
+    );
+  };
+
+  const handleRetractAnswer = async (questionId: string) => {
+    const previousAnswer = submittedAnswers.get(questionId);
+    if (previousAnswer === undefined) return;
+
+    setSubmittedAnswers(prev => {
+      const next = new Map(prev);
+      next.delete(questionId);
+      return next;
+    });
+    setMessageStatuses(prev => new Map(prev).set(questionId, 'idle'));
+
+    await sendMessage(
+      {
+        type: MessageType.ANSWER_RETRACTED,
+        timestamp: Date.now(),
+        senderId,
+        payload: { questionId }
+      },
+      {
+        onAcknowledged: () => {
+          console.log('[Attendee] Retraction acknowledged by peers');
+          toast.success('Answer retracted');
+        },
+        onError: (error) => {
+          console.error('[Attendee] Error retracting answer:', error);
+          toast.error('Failed to retract answer. Please try again.');
+          restoreSubmittedAnswer(questionId, previousAnswer);
+        }
+      }
+    );
+  };
+
+  const handlePostAudienceQuestion = async (text: string) => {
+    const audienceQuestion: AudienceQuestion = {
+      id: `aq_${Date.now()}`,
+      text,
+      senderId,
+      timestamp: Date.now(),
+      upvoterIds: [],
+      status: 'open'
+    };
+
+    setAudienceQuestions(prev => addAudienceQuestion(prev, audienceQuestion));
+
+    await sendMessage(
+      {
+        type: MessageType.AUDIENCE_QUESTION_POSTED,
+        timestamp: Date.now(),
+        senderId,
+        payload: { audienceQuestion }
+      },
+      {
+        onAcknowledged: () => toast.success('Question sent to the speaker!'),
+        onError: (error) => {
+          console.error('[Attendee] Error posting audience question:', error);
+          toast.error('Failed to send your question. Please try again.');
+          setAudienceQuestions(prev => prev.filter(q => q.id !== audienceQuestion.id));
+        }
+      }
+    );
+  };
+
+  const handleUpvote = async (questionId: string, upvoted: boolean) => {
+    setAudienceQuestions(prev => applyUpvote(prev, questionId, senderId, upvoted));
+
+    await sendMessage(
+      {
+        type: MessageType.AUDIENCE_QUESTION_UPVOTED,
+        timestamp: Date.now(),
+        senderId,
+        payload: { questionId, upvoted }
+      },
+      {
+        onError: (error) => {
+          console.error('[Attendee] Error sending upvote:', error);
+          toast.error('Failed to send your vote. Please try again.');
+          setAudienceQuestions(prev => applyUpvote(prev, questionId, senderId, !upvoted));
         }
       }
     );
   };
 
+  // A fresh identity is created when the page loads again
+  const handleResetIdentity = () => {
+    if (!instanceId) return;
+    resetIdentity(instanceId);
+    window.location.reload();
+  };
+
   const activeQuestions = questions.filter(q => q.active);
+  const publishedQuestions = questions.filter(q => !q.active && q.publishedResults);
 
   if (!instanceId) {
     return (
@@ -195,6 +474,31 @@ export default function Attendee() {
                 <p className="text-sm text-muted-foreground">
                   Instance: <code className="font-mono font-bold">{instanceId}</code>
                 </p>
+                {senderId && (
+                  <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                    You: <code className="font-mono">{senderId}</code>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="ghost" size="icon" className="h-6 w-6" title="Reset identity">
+                          <RotateCcw className="h-3 w-3" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Reset your identity?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            You will join this session as a new attendee. Your earlier answers,
+                            questions and upvotes stay with your old identity.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={handleResetIdentity}>Reset</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -214,6 +518,27 @@ export default function Attendee() {
           </Card>
         )}
 
+        {(!credentials.adminPublicKey || !credentials.channelKey) && (
+          <Card className="mb-6 border-destructive">
+            <CardContent className="pt-6 flex items-start gap-3">
+              <ShieldAlert className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+              <p className="text-destructive">
+                This link is missing the session keys, so you can't read questions or send answers.
+                Open the link or scan the QR code shared by the presenter.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {quizResult && (
+          <QuizScoreCard
+            leaderboard={quizResult.leaderboard}
+            senderId={senderId}
+            revealedQuestion={questions.find(q => q.id === quizResult.questionId)}
+            submittedAnswer={submittedAnswers.get(quizResult.questionId)}
+          />
+        )}
+
         {/* Active Questions */}
         {activeQuestions.length === 0 ? (
           <Card className="shadow-lg">
@@ -241,13 +566,41 @@ export default function Attendee() {
                 key={question.id}
                 question={question}
                 onSubmit={handleSubmitAnswer}
-                disabled={!isConnected || submittedAnswers.has(question.id)}
+                onRetract={handleRetractAnswer}
+                disabled={!isConnected}
                 submitted={submittedAnswers.has(question.id)}
+                submittedAnswer={submittedAnswers.get(question.id)}
                 messageStatus={messageStatuses.get(question.id) || 'idle'}
+                clockOffset={clockOffset ?? 0}
               />
             ))}
           </div>
         )}
+
+        {/* Published Results */}
+        {publishedQuestions.length > 0 && (
+          <div className="mt-6 space-y-4">
+            <h2 className="text-lg font-semibold">Results</h2>
+            {publishedQuestions.map((question) => (
+              <PublishedResults
+                key={question.id}
+                question={question}
+                submittedAnswer={submittedAnswers.get(question.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Audience Q&A */}
+        <div className="mt-6">
+          <AudienceQuestions
+            questions={audienceQuestions}
+            senderId={senderId}
+            onPost={handlePostAudienceQuestion}
+            onUpvote={handleUpvote}
+            disabled={!isConnected}
+          />
+        </div>
       </div>
     </div>
   );
@@ -12,6 +12,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { generateInstanceId } from '@/lib/waku';
+import { generateAdminKeyPair, generateChannelKey } from '@/lib/crypto';
 import { getInstances, saveInstance } from '@/lib/storage';
 import { UserCog, Users, FolderOpen } from 'lucide-react';
 import { toast } from 'sonner';
@@ -29,15 +30,28 @@ const Index = () => {
     setRecentInstances(instances.slice(0, 3)); // Show 3 most recent
   }, []);
 
-  const handleCreateInstance = () => {
+  const handleCreateInstance = async () => {
     const newInstanceId = generateInstanceId();
     
+    // The admin keypair signs control messages, the channel key encrypts all traffic
+    let adminKeys;
+    let channelKey;
+    try {
+      [adminKeys, channelKey] = await Promise.all([generateAdminKeyPair(), generateChannelKey()]);
+    } catch (error) {
+      console.error('[Index] Failed to generate instance keys:', error);
+      toast.error('Could not create keys for the instance');
+      return;
+    }
+
     // Save the new instance
     saveInstance({
       id: newInstanceId,
       name: `Instance ${newInstanceId}`,
       questions: [],
-      createdAt: Date.now()
+      createdAt: Date.now(),
+      adminKeys,
+      channelKey
     });
     
     toast.success('Instance created!');
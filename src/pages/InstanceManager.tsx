@@ -20,6 +20,7 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { ExportMenu } from '@/components/ExportMenu';
 import { getInstances, deleteInstance, getQuestions, getAnswers } from '@/lib/storage';
 import type { Instance } from '@/types/waku';
 import { ArrowLeft, Trash2, ExternalLink, Search } from 'lucide-react';
@@ -137,6 +138,7 @@ export default function InstanceManager() {
                         </CardDescription>
                       </div>
                       <div className="flex gap-2">
+                        <ExportMenu instanceId={instance.id} size="icon" />
                         <Button
                           variant="outline"
                           size="icon"
@@ -0,0 +1,307 @@
+/**
+ * Presenter View
+ * 
+ * Fullscreen view for projecting on stage: the active question with live results,
+ * a large join QR code and the number of attendees. It joins the channel with the
+ * attendee credentials, so it can run on a second screen or another device.
+ */
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useParams, useLocation } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ConnectionStatus } from '@/components/ConnectionStatus';
+import { Countdown } from '@/components/Countdown';
+import { PresenterResults } from '@/components/PresenterResults';
+import { useWaku } from '@/hooks/useWaku';
+import { MessageType, type Question, type Answer, type JoinCredentials, type LiveQuestionResults } from '@/types/waku';
+import { getAnswers, getInstance, getJoinCredentials, getQuestions } from '@/lib/storage';
+import { buildAttendeeUrl, parseJoinFragment } from '@/lib/join';
+import { applyQuestionEdit, isAfterClose, reorderQuestions } from '@/lib/questions';
+import {
+  allowsAnswerChanges,
+  applyAnswerRetraction,
+  applyAnswerSubmission,
+  applyAnswerUpdate,
+  countedAnswers
+} from '@/lib/answers';
+import { estimateClockOffset } from '@/lib/clock';
+import { buildQuestionResults, mergeQuestionResults } from '@/lib/published';
+import { Maximize, Minimize, Users, MessageSquare } from 'lucide-react';
+import QRCode from 'react-qr-code';
+
+export default function Present() {
+  const { instanceId } = useParams<{ instanceId: string }>();
+  const location = useLocation();
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [answers, setAnswers] = useState<Answer[]>([]);
+  const [attendeeIds, setAttendeeIds] = useState<Set<string>>(new Set());
+  // The admin's counts from the session snapshot, for answers sent before we joined
+  const [liveResults, setLiveResults] = useState<Map<string, LiveQuestionResults>>(new Map());
+  const [clockOffset, setClockOffset] = useState<number | null>(null);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const questionsRef = useRef<Question[]>([]);
+  const clockOffsetRef = useRef(0);
+
+  // Credentials come from the link, or from the instance when opened in the admin's browser
+  const credentials = useMemo((): JoinCredentials => {
+    const fromLink = parseJoinFragment(location.hash);
+    if (fromLink.adminPublicKey || fromLink.channelKey || !instanceId) return fromLink;
+
+    const instance = getInstance(instanceId);
+    if (instance?.adminKeys || instance?.channelKey) {
+      return { adminPublicKey: instance.adminKeys?.publicKey, channelKey: instance.channelKey };
+    }
+    return getJoinCredentials(instanceId);
+  }, [instanceId, location.hash]);
+
+  const security = useMemo(
+    () => ({ adminPublicKey: credentials.adminPublicKey, channelKey: credentials.channelKey }),
+    [credentials]
+  );
+
+  const { isConnected, isInitializing, isReady, error, sendMessage, onMessage, senderId } = useWaku(
+    instanceId || null,
+    security
+  );
+
+  // Start from what this browser already knows (the admin's data when run next to the dashboard)
+  useEffect(() => {
+    if (!instanceId) return;
+
+    const storedAnswers = getAnswers(instanceId);
+    setQuestions(getQuestions(instanceId));
+    setAnswers(storedAnswers);
+    setAttendeeIds(new Set(storedAnswers.map(a => a.senderId)));
+  }, [instanceId]);
+
+  useEffect(() => {
+    questionsRef.current = questions;
+  }, [questions]);
+
+  useEffect(() => {
+    clockOffsetRef.current = clockOffset ?? 0;
+  }, [clockOffset]);
+
+  // Follow questions and answers on the channel
+  useEffect(() => {
+    if (!isReady) return;
+
+    const addAttendee = (id: string) => {
+      setAttendeeIds(prev => prev.has(id) ? prev : new Set(prev).add(id));
+    };
+
+    const unsubscribe = onMessage((message) => {
+      // Count answers the way the admin does: nothing received after closing, changes only where allowed
+      if (
+        message.type === MessageType.ANSWER_SUBMITTED ||
+        message.type === MessageType.ANSWER_UPDATED ||
+        message.type === MessageType.ANSWER_RETRACTED
+      ) {
+        const questionId = message.type === MessageType.ANSWER_RETRACTED
+          ? message.payload.questionId
+          : message.payload.answer.questionId;
+        const question = questionsRef.current.find(q => q.id === questionId);
+        if (question && isAfterClose(question, Date.now() + clockOffsetRef.current)) return;
+        if (message.type !== MessageType.ANSWER_SUBMITTED && !(question && allowsAnswerChanges(question))) return;
+      }
+
+      switch (message.type) {
+        case MessageType.QUESTION_ADDED:
+          setQuestions(prev =>
+            prev.some(q => q.id === message.payload.question.id) ? prev : [...prev, message.payload.question]
+          );
+          break;
+
+        case MessageType.QUESTION_ACTIVATED:
+          setClockOffset(prev => estimateClockOffset(prev, message.timestamp));
+          setQuestions(prev =>
+            prev.map(q =>
+              q.id === message.payload.questionId
+                ? { ...q, active: true, closesAt: message.payload.closesAt }
+                : q
+            )
+          );
+          break;
+
+        case MessageType.QUESTION_DEACTIVATED:
+          setQuestions(prev => prev.map(q => q.id === message.payload.questionId ? { ...q, active: false } : q));
+          break;
+
+        case MessageType.QUESTION_EDITED:
+          setQuestions(prev =>
+            prev.map(q => q.id === message.payload.questionId ? applyQuestionEdit(q, message.payload) : q)
+          );
+          break;
+
+        case MessageType.QUESTION_DELETED:
+          setQuestions(prev => prev.filter(q => q.id !== message.payload.questionId));
+          break;
+
+        case MessageType.QUESTIONS_REORDERED:
+          setQuestions(prev => reorderQuestions(prev, message.payload.questionIds));
+          break;
+
+        case MessageType.QUIZ_REVEALED:
+          setQuestions(prev =>
+            prev.map(q =>
+              q.id === message.payload.questionId
+                ? { ...q, correctOptionIds: message.payload.correctOptionIds, revealedAt: message.timestamp }
+                : q
+            )
+          );
+          break;
+
+        case MessageType.SESSION_SNAPSHOT:
+          setClockOffset(prev => estimateClockOffset(prev, message.timestamp));
+          setQuestions(message.payload.questions);
+          setLiveResults(new Map(message.payload.liveResults.map(entry => [entry.questionId, entry])));
+          setAttendeeIds(prev => new Set([...prev, ...message.payload.attendeeIds]));
+          break;
+
+        case MessageType.ANSWER_SUBMITTED:
+          addAttendee(message.senderId);
+          setAnswers(prev => applyAnswerSubmission(
+            prev,
+            questionsRef.current.find(q => q.id === message.payload.answer.questionId),
+            message.payload.answer
+          ) ?? prev);
+          break;
+
+        case MessageType.ANSWER_UPDATED:
+          addAttendee(message.senderId);
+          setAnswers(prev => applyAnswerUpdate(prev, message.payload.answer) ?? prev);
+          break;
+
+        case MessageType.ANSWER_RETRACTED:
+          setAnswers(prev => applyAnswerRetraction(prev, message.payload.questionId, message.senderId));
+          break;
+
+        case MessageType.STATE_REQUEST:
+        case MessageType.AUDIENCE_QUESTION_POSTED:
+        case MessageType.AUDIENCE_QUESTION_UPVOTED:
+          addAttendee(message.senderId);
+          break;
+      }
+    });
+
+    // Ask the admin for the current questions
+    sendMessage({
+      type: MessageType.STATE_REQUEST,
+      timestamp: Date.now(),
+      senderId,
+      payload: {}
+    }).catch(err => {
+      console.warn('[Present] Failed to request session state:', err);
+    });
+
+    return unsubscribe;
+  }, [isReady, onMessage, sendMessage, senderId]);
+
+  useEffect(() => {
+    const onFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
+    document.addEventListener('fullscreenchange', onFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', onFullscreenChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(err => {
+        console.warn('[Present] Fullscreen not available:', err);
+      });
+    }
+  };
+
+  // The most recently listed active question is the one on stage
+  const activeQuestion = [...questions].reverse().find(q => q.active);
+  const activeResults = useMemo(() => {
+    if (!activeQuestion) return null;
+
+    // Add the answers we saw from attendees the snapshot didn't count yet; changes by
+    // attendees it did count can't be applied to its totals, the admin re-snapshots for them
+    const snapshot = liveResults.get(activeQuestion.id);
+    const counted = new Set(snapshot?.senderIds);
+    const live = buildQuestionResults(
+      activeQuestion,
+      countedAnswers(activeQuestion, answers).filter(answer => !counted.has(answer.senderId))
+    );
+    return snapshot ? mergeQuestionResults(activeQuestion, snapshot.results, live) : live;
+  }, [activeQuestion, answers, liveResults]);
+
+  const attendeeUrl = instanceId ? buildAttendeeUrl(instanceId, credentials) : '';
+
+  if (!instanceId) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <p className="text-muted-foreground">No instance ID provided</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-primary/5 to-accent/5 p-8 flex flex-col gap-8">
+      <header className="flex items-center justify-between">
+        <code className="text-2xl font-mono font-bold">{instanceId}</code>
+        <div className="flex items-center gap-3">
+          <ConnectionStatus isConnected={isConnected} isInitializing={isInitializing} />
+          <Button variant="ghost" size="icon" onClick={toggleFullscreen} aria-label="Toggle fullscreen">
+            {isFullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+          </Button>
+        </div>
+      </header>
+
+      {error && (
+        <p className="text-destructive">{error}</p>
+      )}
+
+      <main className="flex-1 grid gap-8 lg:grid-cols-[1fr_360px]">
+        <section className="space-y-6">
+          {activeQuestion && activeResults ? (
+            <>
+              <div className="flex items-start justify-between gap-6">
+                <h1 className="text-4xl lg:text-5xl font-bold leading-tight">{activeQuestion.text}</h1>
+                {activeQuestion.closesAt && (
+                  <Countdown closesAt={activeQuestion.closesAt} clockOffset={clockOffset ?? 0} />
+                )}
+              </div>
+              <Badge variant="secondary" className="gap-2 text-base py-1 px-3">
+                <MessageSquare className="h-4 w-4" />
+                {activeResults.total} answer{activeResults.total !== 1 ? 's' : ''}
+              </Badge>
+              <PresenterResults question={activeQuestion} results={activeResults} />
+            </>
+          ) : (
+            <div className="h-full flex items-center justify-center">
+              <p className="text-3xl text-muted-foreground">Waiting for the next question...</p>
+            </div>
+          )}
+        </section>
+
+        <aside>
+          <Card className="shadow-lg">
+            <CardContent className="pt-6 flex flex-col items-center gap-4 text-center">
+              <p className="text-xl font-semibold">Scan to join</p>
+              <div className="p-4 bg-white rounded-lg">
+                <QRCode value={attendeeUrl} size={280} level="H" />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                or open <span className="font-medium">{window.location.host}</span> and enter
+              </p>
+              <code className="text-3xl font-mono font-bold">{instanceId}</code>
+              <div className="flex items-center gap-2 text-2xl font-bold">
+                <Users className="h-6 w-6 text-primary" />
+                {attendeeIds.size}
+                <span className="text-base font-normal text-muted-foreground">
+                  attendee{attendeeIds.size !== 1 ? 's' : ''}
+                </span>
+              </div>
+            </CardContent>
+          </Card>
+        </aside>
+      </main>
+    </div>
+  );
+}
@@ -2,19 +2,150 @@
  * Types for Waku Reliable Channels implementation
  */
 
+/**
+ * How a question is answered; questions without a kind are free text
+ * 'scale' is a rating from min to max, 'nps' the 0-10 "how likely are you to recommend" scale
+ */
+export type QuestionKind = 'text' | 'single' | 'multi' | 'scale' | 'nps';
+
+/**
+ * Which submissions count when an attendee answers a question more than once:
+ * only the first ('single'), only the newest ('latest'), or all of them ('unlimited')
+ */
+export type AnswerPolicy = 'single' | 'latest' | 'unlimited';
+
+export interface QuestionOption {
+  id: string;
+  label: string;
+}
+
+export interface QuestionScale {
+  min: number;
+  max: number;
+}
+
+/**
+ * Canonical term -> other ways attendees write it, for grouping free-text answers
+ */
+export type SynonymMap = Record<string, string[]>;
+
+/**
+ * Manual answer grouping: normalized answer -> normalized answer heading its group
+ */
+export type AnswerGroupAssignments = Record<string, string>;
+
+/**
+ * One bar of published results: an option, a rating or (for free text) an answer group
+ */
+export interface ResultRow {
+  id: string; // option ID, the rating as a string, or '' for answer groups
+  label: string;
+  count: number;
+}
+
+/**
+ * Aggregated results the admin shares with attendees (never individual answers)
+ */
+export interface QuestionResults {
+  total: number; // answers counted
+  rows: ResultRow[];
+}
+
 export interface Question {
   id: string;
   text: string;
   active: boolean;
   createdAt: number;
+  allowAnswerChanges?: boolean; // legacy: set from answerPolicy ('latest') for older attendees, read via answerPolicyOf()
+  answerPolicy?: AnswerPolicy; // decides what is counted and what attendees may do, see lib/answers.ts
+  kind?: QuestionKind;
+  options?: QuestionOption[]; // for 'single' and 'multi' questions
+  scale?: QuestionScale; // for 'scale' questions
+  quiz?: boolean; // choice question with a correct answer, scored on reveal
+  correctOptionIds?: string[]; // kept by the admin, only broadcast once revealed
+  revealedAt?: number; // when the correct answer was revealed
+  activatedAt?: number; // admin only: when the question was last activated, for time-based points
+  deactivatedAt?: number; // admin only: when it was last closed, for the answer timeline
+  durationSeconds?: number; // answering time once activated; no limit when unset
+  closesAt?: number; // admin clock time at which a timed question closes
+  synonyms?: SynonymMap; // admin only: merges free-text answers in the results
+  groupAssignments?: AnswerGroupAssignments; // admin only: answer groups merged or split by hand
+  publishedResults?: QuestionResults; // results shared with attendees
+  rejectedAnswers?: number; // admin only: submissions refused by the answer policy or after closing
+}
+
+/**
+ * Admin input for a new question; the rest is filled in on creation
+ */
+export type QuestionDraft = Omit<Question, 'id' | 'active' | 'createdAt'>;
+
+/**
+ * Corrections an admin can make to an existing question
+ */
+export interface QuestionEdit {
+  text: string;
+  options?: QuestionOption[]; // relabelled options of a choice question, matched by ID
+  scale?: QuestionScale; // new range of a 'scale' question
+  durationSeconds?: number; // time limit from the next activation; no limit when unset
 }
 
 export interface Answer {
   id: string;
   questionId: string;
+  text: string; // for choice questions, the selected option labels; for scale and NPS questions, the rating
+  senderId: string;
+  timestamp: number;
+  optionIds?: string[]; // selected options for 'single' and 'multi' questions
+  receivedAt?: number; // admin only: admin clock time the answer arrived, for time-based points and the timeline
+}
+
+/**
+ * What an attendee fills in for a question
+ */
+export type AnswerInput = Pick<Answer, 'text' | 'optionIds'>;
+
+/**
+ * Moderation state of an audience question, set by the admin
+ */
+export type AudienceQuestionStatus = 'open' | 'pinned' | 'answered' | 'hidden';
+
+/**
+ * A question an attendee asks the speaker
+ */
+export interface AudienceQuestion {
+  id: string;
   text: string;
   senderId: string;
   timestamp: number;
+  upvoterIds: string[]; // senders who upvoted, so each counts once
+  status: AudienceQuestionStatus;
+}
+
+/**
+ * Admin signing keypair, created alongside an instance
+ * publicKey is the base64url raw P-256 point shared in the join link
+ */
+export interface AdminKeyPair {
+  publicKey: string;
+  privateKey: JsonWebKey;
+}
+
+/**
+ * An attendee's identity for one instance on one device
+ * The sender ID is derived from the public key, see senderIdForKey()
+ */
+export interface AttendeeIdentity {
+  senderId: string;
+  publicKey: string; // base64url raw P-256 point
+  privateKey: JsonWebKey;
+}
+
+/**
+ * What an attendee has answered in an instance, kept across reloads
+ */
+export interface SubmittedAnswers {
+  senderId: string; // identity the answers were sent as
+  answers: Record<string, AnswerInput>; // questionId -> submitted answer
 }
 
 export interface Instance {
@@ -22,6 +153,16 @@ export interface Instance {
   name: string;
   questions: Question[];
   createdAt: number;
+  adminKeys?: AdminKeyPair;
+  channelKey?: string; // base64url AES-GCM key encrypting the instance channel
+}
+
+/**
+ * Secrets an attendee receives through the join link fragment
+ */
+export interface JoinCredentials {
+  adminPublicKey?: string;
+  channelKey?: string;
 }
 
 /**
@@ -32,15 +173,37 @@ export enum MessageType {
   QUESTION_ACTIVATED = 'QUESTION_ACTIVATED',
   QUESTION_DEACTIVATED = 'QUESTION_DEACTIVATED',
   ANSWER_SUBMITTED = 'ANSWER_SUBMITTED',
-  INSTANCE_CREATED = 'INSTANCE_CREATED'
+  INSTANCE_CREATED = 'INSTANCE_CREATED',
+  STATE_REQUEST = 'STATE_REQUEST',
+  SESSION_SNAPSHOT = 'SESSION_SNAPSHOT',
+  QUESTION_EDITED = 'QUESTION_EDITED',
+  QUESTION_DELETED = 'QUESTION_DELETED',
+  QUESTIONS_REORDERED = 'QUESTIONS_REORDERED',
+  ANSWER_UPDATED = 'ANSWER_UPDATED',
+  ANSWER_RETRACTED = 'ANSWER_RETRACTED',
+  QUIZ_REVEALED = 'QUIZ_REVEALED',
+  AUDIENCE_QUESTION_POSTED = 'AUDIENCE_QUESTION_POSTED',
+  AUDIENCE_QUESTION_UPVOTED = 'AUDIENCE_QUESTION_UPVOTED',
+  AUDIENCE_QUESTION_MODERATED = 'AUDIENCE_QUESTION_MODERATED',
+  RESULTS_PUBLISHED = 'RESULTS_PUBLISHED'
 }
 
-export interface WakuMessage {
-  type: MessageType;
-  timestamp: number;
-  senderId: string;
-  payload: any;
-}
+/**
+ * Messages only the admin may send; they must carry a valid admin signature
+ */
+export const CONTROL_MESSAGE_TYPES: ReadonlySet<MessageType> = new Set([
+  MessageType.QUESTION_ADDED,
+  MessageType.QUESTION_ACTIVATED,
+  MessageType.QUESTION_DEACTIVATED,
+  MessageType.INSTANCE_CREATED,
+  MessageType.SESSION_SNAPSHOT,
+  MessageType.QUESTION_EDITED,
+  MessageType.QUESTION_DELETED,
+  MessageType.QUESTIONS_REORDERED,
+  MessageType.QUIZ_REVEALED,
+  MessageType.AUDIENCE_QUESTION_MODERATED,
+  MessageType.RESULTS_PUBLISHED
+]);
 
 export interface QuestionAddedPayload {
   question: Question;
@@ -48,6 +211,7 @@ export interface QuestionAddedPayload {
 
 export interface QuestionActivatedPayload {
   questionId: string;
+  closesAt?: number; // set for timed questions
 }
 
 export interface QuestionDeactivatedPayload {
@@ -57,3 +221,135 @@ export interface QuestionDeactivatedPayload {
 export interface AnswerSubmittedPayload {
   answer: Answer;
 }
+
+export interface InstanceCreatedPayload {
+  instanceId: string;
+  name: string;
+}
+
+/**
+ * Sent by a (late) joiner asking the admin for the current session state
+ */
+export type StateRequestPayload = Record<string, never>;
+
+/**
+ * Aggregated results of an active question so far, for presenter screens joining late
+ */
+export interface LiveQuestionResults {
+  questionId: string;
+  results: QuestionResults;
+  senderIds: string[]; // attendees whose answers are counted in the results
+}
+
+/**
+ * Full question list with active flags, sent by the admin in reply to STATE_REQUEST
+ */
+export interface SessionSnapshotPayload {
+  questions: Question[];
+  audienceQuestions: AudienceQuestion[];
+  liveResults: LiveQuestionResults[]; // one entry per active question
+  attendeeIds: string[]; // everyone the admin has seen answer, ask or upvote
+}
+
+export interface QuestionEditedPayload extends QuestionEdit {
+  questionId: string;
+}
+
+export interface QuestionDeletedPayload {
+  questionId: string;
+}
+
+/**
+ * Complete question order; IDs not listed keep their relative order at the end
+ */
+export interface QuestionsReorderedPayload {
+  questionIds: string[];
+}
+
+/**
+ * Replaces the sender's previous answer (only for questions allowing changes)
+ */
+export interface AnswerUpdatedPayload {
+  answer: Answer;
+}
+
+/**
+ * Withdraws the sender's answer to a question (only for questions allowing changes)
+ */
+export interface AnswerRetractedPayload {
+  questionId: string;
+}
+
+/**
+ * Quiz score of one attendee, summed over all revealed quiz questions
+ */
+export interface LeaderboardEntry {
+  senderId: string;
+  points: number;
+  correct: number;
+}
+
+export interface QuizRevealedPayload {
+  questionId: string;
+  correctOptionIds: string[];
+  leaderboard: LeaderboardEntry[];
+}
+
+export interface AudienceQuestionPostedPayload {
+  audienceQuestion: AudienceQuestion;
+}
+
+export interface AudienceQuestionUpvotedPayload {
+  questionId: string;
+  upvoted: boolean; // false withdraws the upvote
+}
+
+export interface AudienceQuestionModeratedPayload {
+  questionId: string;
+  status: AudienceQuestionStatus;
+}
+
+export interface ResultsPublishedPayload {
+  questionId: string;
+  results: QuestionResults;
+}
+
+/**
+ * Maps each message type to the payload it carries
+ */
+export interface MessagePayloads {
+  [MessageType.QUESTION_ADDED]: QuestionAddedPayload;
+  [MessageType.QUESTION_ACTIVATED]: QuestionActivatedPayload;
+  [MessageType.QUESTION_DEACTIVATED]: QuestionDeactivatedPayload;
+  [MessageType.ANSWER_SUBMITTED]: AnswerSubmittedPayload;
+  [MessageType.INSTANCE_CREATED]: InstanceCreatedPayload;
+  [MessageType.STATE_REQUEST]: StateRequestPayload;
+  [MessageType.SESSION_SNAPSHOT]: SessionSnapshotPayload;
+  [MessageType.QUESTION_EDITED]: QuestionEditedPayload;
+  [MessageType.QUESTION_DELETED]: QuestionDeletedPayload;
+  [MessageType.QUESTIONS_REORDERED]: QuestionsReorderedPayload;
+  [MessageType.ANSWER_UPDATED]: AnswerUpdatedPayload;
+  [MessageType.ANSWER_RETRACTED]: AnswerRetractedPayload;
+  [MessageType.QUIZ_REVEALED]: QuizRevealedPayload;
+  [MessageType.AUDIENCE_QUESTION_POSTED]: AudienceQuestionPostedPayload;
+  [MessageType.AUDIENCE_QUESTION_UPVOTED]: AudienceQuestionUpvotedPayload;
+  [MessageType.AUDIENCE_QUESTION_MODERATED]: AudienceQuestionModeratedPayload;
+  [MessageType.RESULTS_PUBLISHED]: ResultsPublishedPayload;
+}
+
+/**
+ * A message of one specific type, with its payload narrowed accordingly
+ */
+export interface TypedWakuMessage<T extends MessageType> {
+  type: T;
+  timestamp: number;
+  senderId: string;
+  payload: MessagePayloads[T];
+}
+
+/**
+ * Any message exchanged on a channel, discriminated by `type`
+ */
+export type WakuMessage = {
+  [T in MessageType]: TypedWakuMessage<T>;
+}[MessageType];
@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Message transport: 'waku' (default) or 'local' for tabs on one machine */
+  readonly VITE_TRANSPORT?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}